@@ -2,4 +2,7 @@ import { defineConfig } from '@vscode/test-cli';
 
 export default defineConfig({
     files: 'out/test/**/*.test.js',
-});
\ No newline at end of file
+    // Opens the repository itself; the integration suite adds a temporary folder for its git repositories and removes it afterwards
+    workspaceFolder: '.',
+    mocha: { timeout: 20000 }
+});
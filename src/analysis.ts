@@ -0,0 +1,396 @@
+// Editor-independent analysis core: prompts, chunking and response parsing.
+// Shared by the extension (llm.ts) and the command-line entry point (cli.ts).
+import { ChatMessage, ResolvedProvider, requestLimits } from './providers';
+import { Schema, extractJSON, validate } from './schema';
+import { PromptRules } from './rules';
+import { DiffHunk, addedLines, diffHunks, removedLines } from './diff';
+
+export type OutputLanguage = 'en' | 'ja';
+
+// What kind of rationale a question asks for; ids are part of the model contract and the settings
+export const SUGGESTION_CATEGORIES = ['magic-number', 'ordering', 'special-case', 'calculation', 'limit', 'concurrency', 'regex', 'condition', 'other'] as const;
+export type SuggestionCategory = typeof SUGGESTION_CATEGORIES[number];
+
+export const CATEGORY_LABELS: Record<SuggestionCategory, string> = {
+  'magic-number': 'Magic number',
+  ordering: 'Ordering',
+  'special-case': 'Special case',
+  calculation: 'Calculation',
+  limit: 'Limit / truncation',
+  concurrency: 'Concurrency / timing',
+  regex: 'Regex / bitwise',
+  condition: 'Complex condition',
+  other: 'Other'
+};
+
+// Code a "why removed?" question is about
+export interface RemovedCode {
+  oldLine: number; // 0-based line in the old file
+  text: string;
+}
+
+// One why-question as returned by the model, before it is tied to a document
+export interface AnalysisItem {
+  line: number; // 0-based line in the new file; for removals, the nearest surviving line
+  message: string;
+  anchor?: string;
+  category?: SuggestionCategory; // absent when the model left it out
+  confidence?: number; // 0..1, how sure the model is that a reader needs the rationale
+  removal?: RemovedCode; // set when the question asks why code was deleted
+}
+
+// Which questions to keep; items without a category count as 'other', without a confidence as certain
+export interface SuggestionFilter {
+  minConfidence: number;
+  categories: readonly SuggestionCategory[];
+}
+
+export interface CoreRequestOptions {
+  llm: ResolvedProvider;
+  language: OutputLanguage;
+  signal?: AbortSignal;
+  // Reports how well the model followed the output contract, once per call
+  onStats?: (stats: ResponseStats) => void;
+  maxParallel?: number; // concurrent chunk requests for one diff (default 2)
+  chunkTokens?: number; // overrides the provider's per-request diff budget
+  rules?: PromptRules; // team rules for this file (.whycomment.json)
+}
+
+export interface ResponseStats {
+  kind: 'analysis' | 'variants';
+  received: number; // items in the reply that was used
+  invalid: number; // items dropped for failing the schema
+  outsideDiff: number; // items whose line is not an added (or, for removals, deleted) line of the diff
+  repaired: boolean; // at least one reply was invalid and a repair request was sent
+  chunks?: number; // requests the diff was split into, including re-splits
+  truncated?: number; // replies cut off at the output limit (their chunk was re-split)
+}
+
+// Result of validating one model reply against its schema
+export interface ParsedResponse<T> {
+  values: T[];
+  errors: string[]; // empty when the reply matched the schema exactly
+  received: number;
+}
+
+function analysisItemSchema(maxMessageLength?: number): Schema {
+  return {
+    type: 'object',
+    properties: {
+      line: { type: 'integer', minimum: 0 },
+      message: { type: 'string', minLength: 1, maxLength: maxMessageLength },
+      anchor: { type: 'string' },
+      category: { type: 'string', enum: [...SUGGESTION_CATEGORIES] },
+      confidence: { type: 'number', minimum: 0, maximum: 1 },
+      removed: { type: 'boolean' }
+    },
+    required: ['line', 'message']
+  };
+}
+
+// maxMessageLength comes from team rules; without it the prompt's default is only a style hint
+export function analysisSchema(maxMessageLength?: number): Schema {
+  return {
+    type: 'object',
+    properties: { items: { type: 'array', items: analysisItemSchema(maxMessageLength) } },
+    required: ['items']
+  };
+}
+
+export const VARIANTS_SCHEMA: Schema = {
+  type: 'object',
+  properties: { variants: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 3, maxItems: 3 } },
+  required: ['variants']
+};
+
+// Bump when the prompts or the output contract change; cached results from older versions are ignored
+export const PROMPT_VERSION = 5;
+
+const DEFAULT_MAX_MESSAGE_LENGTH = 80;
+
+const DEFAULT_MAX_PARALLEL = 2;
+
+// Validation errors quoted back to the model; a handful is enough to correct the format
+const MAX_REPAIR_ERRORS = 10;
+
+export function annotateDiffWithNewLines(diff: string): string {
+  return diffHunks(diff).flatMap(annotateHunk).join('\n');
+}
+
+// Changed lines of one hunk: added lines prefixed with their 1-based new-file line
+// number, deleted lines with their 1-based old-file line number after a minus
+function annotateHunk(h: DiffHunk): string[] {
+  return h.lines.filter(l => l.type !== 'context').map(l => l.type === 'add' ? `[${l.newLine}] +${l.text}` : `[-${l.oldLine}] -${l.text}`);
+}
+
+// Rough token count (about 4 characters per token for code); only used for sizing chunks
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Split the annotated diff into chunks of at most `maxTokens`, keeping hunks
+ * together when they fit; a hunk larger than the budget (e.g. a new file) is
+ * split between lines. Each chunk is a list of annotated lines.
+ */
+export function chunkAnnotatedDiff(diff: string, maxTokens: number): string[][] {
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let size = 0;
+  const flush = () => {
+    if (current.length) chunks.push(current);
+    current = [];
+    size = 0;
+  };
+  for (const hunk of diffHunks(diff)) {
+    const lines = annotateHunk(hunk);
+    if (!lines.length) continue;
+    const hunkSize = lines.reduce((n, l) => n + estimateTokens(l) + 1, 0);
+    if (size + hunkSize <= maxTokens) {
+      current.push(...lines);
+      size += hunkSize;
+      continue;
+    }
+    flush();
+    if (hunkSize <= maxTokens) {
+      current.push(...lines);
+      size = hunkSize;
+      continue;
+    }
+    for (const l of lines) {
+      const lineSize = estimateTokens(l) + 1;
+      if (size + lineSize > maxTokens) flush();
+      current.push(l);
+      size += lineSize;
+    }
+  }
+  flush();
+  return chunks;
+}
+
+// Team cues, suppressed categories and examples appended to a system prompt
+function rulesPromptLines(rules: PromptRules | undefined, kind: 'analysis' | 'variants'): string[] {
+  if (!rules) return [];
+  const out: string[] = [];
+  if (rules.cues.length) out.push(`Team focus (also ${kind === 'analysis' ? 'flag' : 'address'} these): ${rules.cues.join('; ')}.`);
+  if (rules.suppress.length) out.push(`Never ${kind === 'analysis' ? 'ask' : 'write'} about: ${rules.suppress.join('; ')}.`);
+  if (rules.examples.length) {
+    out.push(kind === 'analysis' ? 'Examples of questions this team wants:' : 'Questions this team typically asks (match their focus):');
+    for (const ex of rules.examples) out.push(`- ${JSON.stringify(ex.code)} -> ${JSON.stringify(ex.question)}`);
+  }
+  return out;
+}
+
+export function buildSystemPrompt(lang: OutputLanguage, rules?: PromptRules): string {
+  const langInstr = lang === 'ja' ? 'Language: Japanese.' : 'Language: English.';
+  const maxLength = rules?.maxMessageLength ?? DEFAULT_MAX_MESSAGE_LENGTH;
+  return [
+    'Role: Reviewer for contextual "why" (rationale/assumptions).',
+    'No style/refactor advice. Keep questions short and context-first.',
+    'Skip if same line or <= 3 lines above already has a comment.',
+    'Focus: comment where a reader would pause and need rationale - non-obvious ordering/early-continue/special-cases, unexplained constants/thresholds, math/tax/discount order, truncation/limits, init/sleep/heartbeat, complex conditions/regex/bitwise. Treat these as cues, not a checklist.',
+    'Granularity: Make fine-grained, line-level calls. Do not summarize across multiple changes. Even for large diffs, include every added line that warrants a why-question as its own item.',
+    `Style for message: start with "Why" (en) or "なぜ" (ja), end with "?", keep <= ${maxLength} chars, and make it specific to the line and its surrounding context.`,
+    ...rulesPromptLines(rules, 'analysis'),
+    langInstr
+  ].join('\n');
+}
+
+export function buildUserPrompt(annotatedDiff: string, lang: OutputLanguage): string {
+  return [
+    'Given an annotated unified git diff for a single file:',
+    '- Each added line is prefixed with its absolute NEW FILE line number in square brackets, e.g. "[42] +const x = 1".',
+    '- Each deleted line is prefixed with its absolute OLD FILE line number after a minus, e.g. "[-40] -await lock.acquire()".',
+    'Task: Identify added lines that feel contextually surprising and would prompt a "why" explanation.',
+    'Also ask "why was this removed?" for deleted lines whose removal is surprising (a dropped retry, lock, validation, check, limit or special case). Skip deletions that are plainly replaced by the added lines.',
+    'Do not collapse or summarize. Output separate items for each applicable line, even if many lines qualify.',
+    (lang === 'ja' ? 'Output language: Japanese.' : 'Output language: English.'),
+    'Strict format: Return exactly one JSON object { "items": [ { "line": <0-based absolute line>, "message": <Why-question>, "anchor": <exact code text>, "category": <category>, "confidence": <0..1> } ] }. No extra keys/markdown/code fences. If none, return { "items": [] }.',
+    `- "category" is one of: ${SUGGESTION_CATEGORIES.join(', ')}. "confidence" is how likely a reader needs the rationale (1 = certainly).`,
+    '- For a deleted line add "removed": true; its "line" is the OLD FILE line from "[-N]" and "anchor" is the deleted code.',
+    '',
+    '- Derive "line" from the bracketed line numbers: the NEW FILE line for an added line, the OLD FILE line for a deleted line. Convert both to 0-based ("[42]" is 41, "[-40]" is 39). Only output JSON.',
+    '',
+    annotatedDiff
+  ].join('\n');
+}
+
+export function buildVariantsMessages(codeSnippet: string, lang: OutputLanguage, rules?: PromptRules): ChatMessage[] {
+  const maxLength = rules?.maxMessageLength ?? DEFAULT_MAX_MESSAGE_LENGTH;
+  const system = [
+    'Role: Senior engineer writing helpful explanatory code comments.',
+    'Write concise, single-line explanations that clarify the rationale, assumptions, or constraints behind the code line(s).',
+    `Do not include comment tokens, markdown, or code fences. Keep each under ~${maxLength} characters. Language must match the requested locale.`,
+    ...rulesPromptLines(rules, 'variants'),
+    lang === 'ja' ? 'Language: Japanese.' : 'Language: English.'
+  ].join('\n');
+  const user = [
+    'Given the following code context, propose three alternative comment texts to insert immediately above the highlighted line.',
+    'Focus on the intent and non-obvious reasoning. Avoid restating the code.',
+    'Strict output: return one JSON object: { "variants": ["...","...","..."] } with exactly 3 items.',
+    '',
+    'Code context (the target line is marked with >>>):',
+    codeSnippet
+  ].join('\n');
+  return [ { role: 'system', content: system }, { role: 'user', content: user } ];
+}
+
+export function buildRepairMessage(errors: string[], schema: Schema): ChatMessage {
+  const shown = errors.slice(0, MAX_REPAIR_ERRORS);
+  if (errors.length > shown.length) shown.push(`…and ${errors.length - shown.length} more`);
+  return {
+    role: 'user',
+    content: [
+      'Your previous reply did not match the required output format:',
+      ...shown.map(e => `- ${e}`),
+      'Reply again with only the corrected JSON (no markdown, no code fences). It must match this JSON schema:',
+      JSON.stringify(schema)
+    ].join('\n')
+  };
+}
+
+/**
+ * Ask the model for why-questions on the added lines of a single-file diff.
+ * Large diffs are split into chunks sent with bounded parallelism; a chunk whose
+ * reply was truncated is split in half and retried. An invalid reply gets one
+ * repair round-trip; items outside the added lines are dropped.
+ * Provider errors propagate to the caller.
+ */
+export async function analyzeDiff(diff: string, opts: CoreRequestOptions): Promise<AnalysisItem[]> {
+  if (!opts.llm.ready) return [];
+  const budget = opts.chunkTokens ?? opts.llm.request.chunkTokens ?? requestLimits(opts.llm.provider, opts.llm.request.model).chunkTokens;
+  const chunks = chunkAnnotatedDiff(diff, budget);
+  if (!chunks.length) return [];
+  const stats: ResponseStats = { kind: 'analysis', received: 0, invalid: 0, outsideDiff: 0, repaired: false, chunks: 0, truncated: 0 };
+  const analyzeChunk = async (lines: string[]): Promise<AnalysisItem[]> => {
+    const messages: ChatMessage[] = [
+      { role: 'system', content: buildSystemPrompt(opts.language, opts.rules) },
+      { role: 'user', content: buildUserPrompt(lines.join('\n'), opts.language) }
+    ];
+    stats.chunks!++;
+    const maxLength = opts.rules?.maxMessageLength;
+    const { parsed, repaired, truncated } = await completeValidated(messages, opts, analysisSchema(maxLength), text => parseAnalysisResponse(text, maxLength));
+    if (truncated && lines.length > 1) {
+      // Output ran out before the model finished: ask about each half separately
+      stats.truncated!++;
+      const mid = Math.ceil(lines.length / 2);
+      // Sequential so a re-split never exceeds the parallelism bound
+      const head = await analyzeChunk(lines.slice(0, mid));
+      return [...head, ...await analyzeChunk(lines.slice(mid))];
+    }
+    stats.received += parsed.received;
+    stats.invalid += parsed.received - parsed.values.length;
+    stats.repaired ||= repaired;
+    return parsed.values;
+  };
+  const results = await mapWithConcurrency(chunks, opts.maxParallel ?? DEFAULT_MAX_PARALLEL, analyzeChunk);
+  const merged = dedupeItems(results.flat());
+  const located = locateItems(diff, merged);
+  stats.outsideDiff = merged.length - located.length;
+  opts.onStats?.(stats);
+  // Removals of neighbouring lines can share a surviving line
+  return dedupeItems(located);
+}
+
+// Keep items on added lines; tie removal items to the deleted code and its nearest surviving line
+function locateItems(diff: string, items: AnalysisItem[]): AnalysisItem[] {
+  const added = addedLines(diff);
+  const removed = removedLines(diff);
+  const out: AnalysisItem[] = [];
+  for (const it of items) {
+    if (!it.removal) {
+      if (added.has(it.line)) out.push(it);
+      continue;
+    }
+    const r = removed.get(it.removal.oldLine);
+    if (!r) continue;
+    out.push({ ...it, line: r.siteLine, anchor: r.siteText?.trim() || undefined, removal: { oldLine: r.oldLine, text: r.text } });
+  }
+  return out;
+}
+
+// Same line and message from different chunks (or a re-split) count once
+function dedupeItems(items: AnalysisItem[]): AnalysisItem[] {
+  const seen = new Map<string, AnalysisItem>();
+  for (const it of items) {
+    const key = `${it.removal ? '-' : ''}${it.line}:${it.message}`;
+    if (!seen.has(key)) seen.set(key, it);
+  }
+  return Array.from(seen.values()).sort((a, b) => a.line - b.line);
+}
+
+// Order-preserving map running at most `limit` workers at once; the first error rejects
+async function mapWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const run = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await worker(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, run));
+  return results;
+}
+
+export async function requestCommentVariants(codeSnippet: string, opts: CoreRequestOptions): Promise<string[]> {
+  if (!opts.llm.ready) return [];
+  const { parsed, repaired } = await completeValidated(buildVariantsMessages(codeSnippet, opts.language, opts.rules), opts, VARIANTS_SCHEMA, parseVariantsResponse);
+  opts.onStats?.({ kind: 'variants', received: parsed.received, invalid: parsed.received - parsed.values.length, outsideDiff: 0, repaired });
+  return parsed.values.slice(0, 3);
+}
+
+interface ValidatedReply<T> {
+  parsed: ParsedResponse<T>;
+  repaired: boolean;
+  truncated: boolean; // cut off at the output limit; a repair would not help
+}
+
+// One request plus at most one repair request; keeps whichever reply yielded more usable values
+async function completeValidated<T>(messages: ChatMessage[], opts: CoreRequestOptions, schema: Schema, parse: (text: string) => ParsedResponse<T>): Promise<ValidatedReply<T>> {
+  const first = await opts.llm.provider.complete(messages, opts.llm.request, opts.signal);
+  const parsed = parse(first.text);
+  if (first.truncated) return { parsed, repaired: false, truncated: true };
+  if (!parsed.errors.length) return { parsed, repaired: false, truncated: false };
+  const retryMessages: ChatMessage[] = [...messages, { role: 'assistant', content: first.text }, buildRepairMessage(parsed.errors, schema)];
+  const second = await opts.llm.provider.complete(retryMessages, opts.llm.request, opts.signal);
+  const repaired = parse(second.text);
+  const better = !repaired.errors.length || repaired.values.length >= parsed.values.length;
+  return { parsed: better ? repaired : parsed, repaired: true, truncated: !!second.truncated && better };
+}
+
+// Strictly validate an analysis reply; items failing the item schema are dropped and reported
+export function parseAnalysisResponse(completion: string, maxMessageLength?: number): ParsedResponse<AnalysisItem> {
+  const value = extractJSON(completion);
+  if (value === undefined) return { values: [], errors: ['reply is not valid JSON'], received: 0 };
+  const items = (value as any)?.items;
+  if (!Array.isArray(items)) return { values: [], errors: validate(analysisSchema(maxMessageLength), value), received: 0 };
+  const values: AnalysisItem[] = [];
+  const errors: string[] = [];
+  items.forEach((it: any, i: number) => {
+    const itemErrors = validate(analysisItemSchema(maxMessageLength), it, `$.items[${i}]`);
+    if (itemErrors.length) { errors.push(...itemErrors); return; }
+    const item: AnalysisItem = { line: it.line, message: it.message.trim(), anchor: typeof it.anchor === 'string' ? it.anchor : undefined };
+    if (it.category !== undefined) item.category = it.category;
+    if (it.confidence !== undefined) item.confidence = it.confidence;
+    // Located against the diff later; until then line is the old-file line
+    if (it.removed === true) item.removal = { oldLine: it.line, text: '' };
+    values.push(item);
+  });
+  return { values, errors, received: items.length };
+}
+
+export function parseVariantsResponse(completion: string): ParsedResponse<string> {
+  const value = extractJSON(completion);
+  if (value === undefined) return { values: [], errors: ['reply is not valid JSON'], received: 0 };
+  const errors = validate(VARIANTS_SCHEMA, value);
+  const variants = (value as any)?.variants;
+  if (!Array.isArray(variants)) return { values: [], errors, received: 0 };
+  const values = variants.filter((v: unknown): v is string => typeof v === 'string' && v.trim().length > 0).map(v => v.trim());
+  return { values, errors, received: variants.length };
+}
+
+export function passesFilter(item: Pick<AnalysisItem, 'category' | 'confidence'>, filter: SuggestionFilter): boolean {
+  if ((item.confidence ?? 1) < filter.minConfidence) return false;
+  return filter.categories.includes(item.category ?? 'other');
+}
@@ -0,0 +1,209 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Suggestion } from './types';
+import { getLog, sha1 } from './utils';
+
+export const BASELINE_FILE = '.whycomment-baseline.json';
+const FORMAT_VERSION = 1;
+
+// One suppressed question, as committed to the baseline file
+export interface BaselineEntry {
+  fingerprint: string;
+  file: string; // path relative to the workspace folder, forward slashes
+  anchor: string; // normalized code of the flagged line, for humans reading the file
+  removed?: string; // normalized deleted code, for a "why removed?" question
+  message: string; // the question that was suppressed
+  addedAt: string; // ISO date
+}
+
+interface BaselineFile {
+  version: number;
+  suppressions: BaselineEntry[];
+}
+
+// A baseline entry together with the folder whose baseline file holds it
+export interface BaselineItem {
+  folder: vscode.WorkspaceFolder;
+  entry: BaselineEntry;
+}
+
+export function normalizeCode(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Fingerprint of a flagged line: the file path, the line's code and the nearest
+ * non-blank line above and below, all whitespace-normalized. Line numbers are
+ * left out so edits elsewhere in the file do not invalidate it. A "why
+ * removed?" question also hashes its kind and the deleted code, since it can
+ * share a line with an added-line question; added-line fingerprints are
+ * unchanged so existing baselines still match.
+ */
+export function fingerprintAt(relPath: string, lines: string[], line: number, removed?: string): string {
+  const nearest = (step: 1 | -1) => {
+    for (let i = line + step; i >= 0 && i < lines.length; i += step) {
+      const t = normalizeCode(lines[i]);
+      if (t) return t;
+    }
+    return '';
+  };
+  const parts = [relPath, nearest(-1), normalizeCode(lines[line] ?? ''), nearest(1)];
+  if (removed !== undefined) parts.push('removed', normalizeCode(removed));
+  return sha1(parts.join('\n'));
+}
+
+export function suggestionFingerprint(relPath: string, lines: string[], s: Suggestion): string {
+  return fingerprintAt(relPath, lines, s.line, s.removal?.text);
+}
+
+/**
+ * Team suppressions committed as `.whycomment-baseline.json` at the root of
+ * each workspace folder. Reloaded when the file changes (e.g. after a pull).
+ */
+export class SuppressionBaseline implements vscode.Disposable {
+  private byFolder = new Map<string, BaselineEntry[]>();
+  private watcher = vscode.workspace.createFileSystemWatcher(`**/${BASELINE_FILE}`);
+  private disposables: vscode.Disposable[] = [];
+  private _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  constructor() {
+    const reload = (uri: vscode.Uri) => {
+      const folder = vscode.workspace.getWorkspaceFolder(uri);
+      if (folder && path.dirname(uri.fsPath) === folder.uri.fsPath) void this.reload(folder);
+    };
+    this.disposables.push(
+      this.watcher,
+      this._onDidChange,
+      this.watcher.onDidCreate(reload),
+      this.watcher.onDidChange(reload),
+      this.watcher.onDidDelete(reload),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => void this.loadAll())
+    );
+  }
+
+  async loadAll(): Promise<void> {
+    this.byFolder.clear();
+    await Promise.all((vscode.workspace.workspaceFolders ?? []).map(f => this.reload(f, false)));
+    this._onDidChange.fire();
+  }
+
+  items(): BaselineItem[] {
+    const out: BaselineItem[] = [];
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      for (const entry of this.byFolder.get(folder.uri.toString()) ?? []) out.push({ folder, entry });
+    }
+    return out;
+  }
+
+  // Drop suggestions whose location is in the baseline; `lines` is the current file content
+  filter(uri: vscode.Uri, lines: string[], items: Suggestion[]): Suggestion[] {
+    const where = this.locate(uri);
+    if (!where) return items;
+    const suppressed = new Set((this.byFolder.get(where.folder.uri.toString()) ?? []).map(e => e.fingerprint));
+    if (!suppressed.size) return items;
+    return items.filter(s => !suppressed.has(suggestionFingerprint(where.rel, lines, s)));
+  }
+
+  // Add suggestions of one file; returns how many were new
+  async add(uri: vscode.Uri, lines: string[], items: Suggestion[]): Promise<number> {
+    const where = this.locate(uri);
+    if (!where) throw new Error('File is not in a workspace folder');
+    const entries = [...(this.byFolder.get(where.folder.uri.toString()) ?? [])];
+    const known = new Set(entries.map(e => e.fingerprint));
+    let added = 0;
+    for (const s of items) {
+      const fingerprint = suggestionFingerprint(where.rel, lines, s);
+      if (known.has(fingerprint)) continue;
+      known.add(fingerprint);
+      const removed = s.removal ? { removed: normalizeCode(s.removal.text) } : {};
+      entries.push({ fingerprint, file: where.rel, anchor: normalizeCode(lines[s.line] ?? ''), ...removed, message: s.message, addedAt: new Date().toISOString() });
+      added++;
+    }
+    if (added) await this.write(where.folder, entries);
+    return added;
+  }
+
+  async remove(folder: vscode.WorkspaceFolder, fingerprints: string[]): Promise<void> {
+    const drop = new Set(fingerprints);
+    const entries = (this.byFolder.get(folder.uri.toString()) ?? []).filter(e => !drop.has(e.fingerprint));
+    await this.write(folder, entries);
+  }
+
+  /**
+   * Remove entries whose file is gone or whose code no longer appears in it.
+   * Returns the number of entries removed.
+   */
+  async prune(): Promise<number> {
+    let removed = 0;
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const entries = this.byFolder.get(folder.uri.toString()) ?? [];
+      if (!entries.length) continue;
+      const contents = new Map<string, string[] | undefined>();
+      for (const file of new Set(entries.map(e => e.file))) {
+        try {
+          const text = Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder.uri, file))).toString('utf8');
+          contents.set(file, text.split(/\r?\n/));
+        } catch {
+          contents.set(file, undefined);
+        }
+      }
+      // Added-line entries share one set per file; a removal entry hashes its own deleted code into every line
+      const live = new Map<string, Set<string>>();
+      const isLive = (e: BaselineEntry) => {
+        const lines = contents.get(e.file);
+        if (!lines) return false;
+        const key = e.removed === undefined ? e.file : `${e.file}\n${e.removed}`;
+        let set = live.get(key);
+        if (!set) {
+          set = new Set(lines.map((_, i) => fingerprintAt(e.file, lines, i, e.removed)));
+          live.set(key, set);
+        }
+        return set.has(e.fingerprint);
+      };
+      const kept = entries.filter(isLive);
+      if (kept.length === entries.length) continue;
+      removed += entries.length - kept.length;
+      await this.write(folder, kept);
+    }
+    return removed;
+  }
+
+  dispose(): void {
+    for (const d of this.disposables) d.dispose();
+  }
+
+  private locate(uri: vscode.Uri): { folder: vscode.WorkspaceFolder; rel: string } | undefined {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!folder) return undefined;
+    return { folder, rel: path.relative(folder.uri.fsPath, uri.fsPath).replace(/\\/g, '/') };
+  }
+
+  private async reload(folder: vscode.WorkspaceFolder, notify = true): Promise<void> {
+    const uri = vscode.Uri.joinPath(folder.uri, BASELINE_FILE);
+    let entries: BaselineEntry[] = [];
+    try {
+      const raw = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8')) as BaselineFile;
+      if (Array.isArray(raw?.suppressions)) {
+        entries = raw.suppressions.filter(e => typeof e?.fingerprint === 'string' && typeof e.file === 'string');
+      }
+    } catch (err) {
+      // A missing file just means an empty baseline
+      if (!(err instanceof vscode.FileSystemError && err.code === 'FileNotFound')) {
+        getLog().warn(`${vscode.workspace.asRelativePath(uri)} could not be read: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    this.byFolder.set(folder.uri.toString(), entries);
+    if (notify) this._onDidChange.fire();
+  }
+
+  private async write(folder: vscode.WorkspaceFolder, entries: BaselineEntry[]): Promise<void> {
+    // Sorted so the committed file diffs cleanly
+    const sorted = [...entries].sort((a, b) => a.file.localeCompare(b.file) || a.anchor.localeCompare(b.anchor) || a.fingerprint.localeCompare(b.fingerprint));
+    const data: BaselineFile = { version: FORMAT_VERSION, suppressions: sorted };
+    const uri = vscode.Uri.joinPath(folder.uri, BASELINE_FILE);
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(data, null, 2) + '\n', 'utf8'));
+    this.byFolder.set(folder.uri.toString(), sorted);
+    this._onDidChange.fire();
+  }
+}
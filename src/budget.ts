@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import { Completion, ResolvedProvider, TokenUsage, withCompletion } from './providers';
+
+const STORAGE_KEY = 'whycomment.usage';
+
+// 0 means unlimited
+export interface BudgetLimits {
+  dailyRequests: number;
+  monthlyRequests: number;
+  dailyTokens: number;
+  monthlyTokens: number;
+}
+
+export interface UsageSnapshot {
+  day: string; // YYYY-MM-DD (local time)
+  month: string; // YYYY-MM
+  dayRequests: number;
+  dayTokens: number;
+  monthRequests: number;
+  monthTokens: number;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+function localDay(d: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/**
+ * Daily/monthly request and token budget, persisted in global state so it
+ * holds across windows and restarts.
+ */
+export class RequestBudget {
+  private _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+  // Requests sent but not yet answered; they count toward request limits so concurrent calls cannot overshoot
+  private pending = 0;
+
+  constructor(private state: vscode.Memento, private getLimits: () => BudgetLimits) {}
+
+  usage(): UsageSnapshot {
+    const today = localDay(new Date());
+    const month = today.slice(0, 7);
+    const saved = this.state.get<UsageSnapshot>(STORAGE_KEY);
+    const u: UsageSnapshot = saved ? { ...saved } : { day: today, month, dayRequests: 0, dayTokens: 0, monthRequests: 0, monthTokens: 0 };
+    // Roll over counters when the period changed since the last request
+    if (u.month !== month) { u.month = month; u.monthRequests = 0; u.monthTokens = 0; }
+    if (u.day !== today) { u.day = today; u.dayRequests = 0; u.dayTokens = 0; }
+    return u;
+  }
+
+  // Reason the budget is exhausted, or undefined when another request is allowed
+  exhaustedReason(): string | undefined {
+    const u = this.usage();
+    const l = this.getLimits();
+    u.dayRequests += this.pending;
+    u.monthRequests += this.pending;
+    if (l.dailyRequests > 0 && u.dayRequests >= l.dailyRequests) return `Daily request limit (${l.dailyRequests}) reached.`;
+    if (l.monthlyRequests > 0 && u.monthRequests >= l.monthlyRequests) return `Monthly request limit (${l.monthlyRequests}) reached.`;
+    if (l.dailyTokens > 0 && u.dayTokens >= l.dailyTokens) return `Daily token limit (${l.dailyTokens}) reached.`;
+    if (l.monthlyTokens > 0 && u.monthTokens >= l.monthlyTokens) return `Monthly token limit (${l.monthlyTokens}) reached.`;
+    return undefined;
+  }
+
+  async record(usage?: TokenUsage): Promise<void> {
+    const u = this.usage();
+    const tokens = usage ? usage.inputTokens + usage.outputTokens : 0;
+    u.dayRequests++; u.monthRequests++;
+    u.dayTokens += tokens; u.monthTokens += tokens;
+    await this.state.update(STORAGE_KEY, u);
+    this._onDidChange.fire();
+  }
+
+  async reset(): Promise<void> {
+    await this.state.update(STORAGE_KEY, undefined);
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Same provider, but every request is checked against and counted toward the
+   * budget. The request is reserved before anything is awaited and settled with
+   * its token usage once answered; a failed request is released uncounted.
+   */
+  meter(llm: ResolvedProvider): ResolvedProvider {
+    return withCompletion(llm, async (messages, req, signal) => {
+      const reason = this.exhaustedReason();
+      if (reason) throw new BudgetExceededError(reason);
+      this.pending++;
+      let completion: Completion;
+      try {
+        completion = await llm.provider.complete(messages, req, signal);
+      } catch (err) {
+        this.pending--;
+        throw err;
+      }
+      // record() writes the counters before its first await, so the reservation is never counted twice
+      const recorded = this.record(completion.usage);
+      this.pending--;
+      await recorded;
+      return completion;
+    });
+  }
+}
+
+// Status bar entry with today's usage; switches to a paused look when the budget is exhausted or the provider cannot run
+export class BudgetStatusBar implements vscode.Disposable {
+  private item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+
+  constructor(private budget: RequestBudget, private getLimits: () => BudgetLimits, private getUnavailable: () => string | undefined = () => undefined) {
+    this.item.command = 'whycomment.showUsage';
+    this.refresh();
+    this.item.show();
+  }
+
+  refresh(): void {
+    const u = this.budget.usage();
+    const l = this.getLimits();
+    const exhausted = this.getUnavailable() ?? this.budget.exhaustedReason();
+    const limitText = l.dailyRequests > 0 ? `/${l.dailyRequests}` : '';
+    this.item.text = exhausted ? '$(debug-pause) WhyComment' : `$(comment-discussion) ${u.dayRequests}${limitText}`;
+    this.item.tooltip = [
+      exhausted ? `WhyComment paused: ${exhausted}` : 'WhyComment usage',
+      ...describeUsage(u, l)
+    ].join('\n');
+  }
+
+  dispose(): void {
+    this.item.dispose();
+  }
+}
+
+export function describeUsage(u: UsageSnapshot, l: BudgetLimits): string[] {
+  const of = (n: number, limit: number) => limit > 0 ? `${n} / ${limit}` : `${n}`;
+  return [
+    `Today: ${of(u.dayRequests, l.dailyRequests)} requests, ${of(u.dayTokens, l.dailyTokens)} tokens`,
+    `This month: ${of(u.monthRequests, l.monthlyRequests)} requests, ${of(u.monthTokens, l.monthlyTokens)} tokens`
+  ];
+}
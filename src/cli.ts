@@ -0,0 +1,285 @@
+#!/usr/bin/env node
+// Headless entry point for pre-commit hooks and CI. Must not import 'vscode'.
+import * as fs from 'fs';
+import * as path from 'path';
+import { AnalysisItem, OutputLanguage, ResponseStats, SUGGESTION_CATEGORIES, SuggestionCategory, SuggestionFilter, analyzeDiff, passesFilter } from './analysis';
+import { splitDiffByFile } from './diff';
+import { getGitPath, getRangeDiff, getRepoRoot, getStagedDiff } from './git';
+import { ProviderConfig, apiKeyFromEnv, providerUnavailableReason, registerProvider, resolveProvider, withCompletion } from './providers';
+import { FakeReply, createReplayProvider, recordReplies, serializeRecording } from './fakeProvider';
+import { RULES_FILE, RulesFile, isEmptyRules, parseRulesFile, rulesForPath } from './rules';
+
+type OutputFormat = 'text' | 'json' | 'sarif';
+
+interface CliOptions {
+  source: { kind: 'staged' } | { kind: 'range'; range: string } | { kind: 'patch'; file: string };
+  format: OutputFormat;
+  threshold: number; // exit non-zero when findings exceed this
+  contextLines: number;
+  language: OutputLanguage;
+  filter: SuggestionFilter;
+  provider: ProviderConfig;
+  record?: string; // write the model's replies here for the replay provider
+}
+
+interface Finding extends AnalysisItem {
+  file: string;
+}
+
+const HOOK_MARKER = '# Installed by whycomment';
+
+// Plays back a --record recording from $WHYCOMMENT_REPLAY_FILE; only the CLI and tests offer it
+registerProvider(createReplayProvider());
+
+const USAGE = `Usage:
+  whycomment [analyze] [--staged | --range <a..b> | --patch <file>] [options]
+  whycomment install-hook [--force]
+
+Options:
+  --format <text|json|sarif>   Output format (default: text)
+  --threshold <n>              Exit with code 1 when more than n findings (default: 0)
+  --context <n>                Context lines around changes (default: 1)
+  --language <en|ja>           Language of the questions (default: from $LANG)
+  --min-confidence <0-1>       Drop questions the model is less confident about (default: 0)
+  --categories <a,b,...>       Only report these categories (default: all)
+                               ${SUGGESTION_CATEGORIES.join(', ')}
+  --provider <id>              claude, openai, openai-compatible or replay (default: claude)
+  --model <name>               Model for the selected provider
+  --base-url <url>             Base URL for openai-compatible servers
+  --chunk-tokens <n>           Diff tokens per request; larger diffs are split (default: per model)
+  --record <file>              Save the model's replies for --provider replay
+
+Environment:
+  WHYCOMMENT_API_KEY (or ANTHROPIC_API_KEY / OPENAI_API_KEY), WHYCOMMENT_PROVIDER,
+  WHYCOMMENT_MODEL, WHYCOMMENT_BASE_URL, WHYCOMMENT_REPLAY_FILE (recording for --provider replay)`;
+
+class UsageError extends Error {}
+
+function parseArgs(argv: string[]): CliOptions {
+  const env = process.env;
+  const providerId = env.WHYCOMMENT_PROVIDER || 'claude';
+  const opts: CliOptions = {
+    source: { kind: 'staged' },
+    format: 'text',
+    threshold: 0,
+    contextLines: 1,
+    language: (env.LANG || '').toLowerCase().startsWith('ja') ? 'ja' : 'en',
+    filter: { minConfidence: 0, categories: SUGGESTION_CATEGORIES },
+    provider: {
+      apiProvider: providerId,
+      apiKey: '',
+      claudeModel: 'claude-3-5-haiku-latest',
+      openaiModel: 'gpt-4o-mini',
+      openaiCompatibleBaseUrl: env.WHYCOMMENT_BASE_URL || 'http://localhost:11434/v1',
+      openaiCompatibleModel: 'llama3.1',
+      chunkTokens: 0
+    }
+  };
+  let model = env.WHYCOMMENT_MODEL;
+  const next = (i: number, flag: string): string => {
+    const v = argv[i + 1];
+    if (v === undefined || v.startsWith('--')) throw new UsageError(`Missing value for ${flag}`);
+    return v;
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    switch (a) {
+      case 'analyze': break;
+      case '--staged': opts.source = { kind: 'staged' }; break;
+      case '--range': opts.source = { kind: 'range', range: next(i, a) }; i++; break;
+      case '--patch': opts.source = { kind: 'patch', file: next(i, a) }; i++; break;
+      case '--format': {
+        const f = next(i, a); i++;
+        if (f !== 'text' && f !== 'json' && f !== 'sarif') throw new UsageError(`Unknown format: ${f}`);
+        opts.format = f;
+        break;
+      }
+      case '--threshold': opts.threshold = parseCount(next(i, a), a); i++; break;
+      case '--context': opts.contextLines = parseCount(next(i, a), a); i++; break;
+      case '--language': {
+        const l = next(i, a); i++;
+        if (l !== 'en' && l !== 'ja') throw new UsageError(`Unknown language: ${l}`);
+        opts.language = l;
+        break;
+      }
+      case '--min-confidence': {
+        const v = next(i, a); i++;
+        const n = Number(v);
+        if (!Number.isFinite(n) || n < 0 || n > 1) throw new UsageError(`${a} expects a number between 0 and 1`);
+        opts.filter.minConfidence = n;
+        break;
+      }
+      case '--categories': {
+        const list = next(i, a).split(',').map(c => c.trim()).filter(Boolean); i++;
+        const unknown = list.filter(c => !(SUGGESTION_CATEGORIES as readonly string[]).includes(c));
+        if (unknown.length) throw new UsageError(`Unknown categor${unknown.length === 1 ? 'y' : 'ies'}: ${unknown.join(', ')}`);
+        opts.filter.categories = list as SuggestionCategory[];
+        break;
+      }
+      case '--provider': opts.provider.apiProvider = next(i, a); i++; break;
+      case '--model': model = next(i, a); i++; break;
+      case '--base-url': opts.provider.openaiCompatibleBaseUrl = next(i, a); i++; break;
+      case '--chunk-tokens': opts.provider.chunkTokens = parseCount(next(i, a), a); i++; break;
+      case '--record': opts.record = next(i, a); i++; break;
+      default: throw new UsageError(`Unknown argument: ${a}`);
+    }
+  }
+  // Resolved after parsing so --provider picks the matching variable
+  opts.provider.apiKey = apiKeyFromEnv(opts.provider.apiProvider, env);
+  if (model) {
+    opts.provider.claudeModel = model;
+    opts.provider.openaiModel = model;
+    opts.provider.openaiCompatibleModel = model;
+  }
+  return opts;
+}
+
+function parseCount(v: string, flag: string): number {
+  const n = Number(v);
+  if (!Number.isInteger(n) || n < 0) throw new UsageError(`${flag} expects a non-negative integer`);
+  return n;
+}
+
+async function readDiff(opts: CliOptions, cwd: string): Promise<string> {
+  switch (opts.source.kind) {
+    case 'staged': return getStagedDiff(cwd, opts.contextLines);
+    case 'range': return getRangeDiff(cwd, opts.source.range, opts.contextLines);
+    case 'patch': return fs.readFileSync(opts.source.file, 'utf8');
+  }
+}
+
+// Team rules from the repository root (diff paths are relative to it), or the working directory outside a repository
+async function loadRules(cwd: string): Promise<RulesFile | undefined> {
+  const root = (await getRepoRoot(cwd)) ?? cwd;
+  const file = path.join(root, RULES_FILE);
+  if (!fs.existsSync(file)) return undefined;
+  const { rules, errors } = parseRulesFile(fs.readFileSync(file, 'utf8'));
+  if (errors.length) throw new Error(`${file} is invalid: ${errors.join('; ')}`);
+  return rules;
+}
+
+async function analyze(opts: CliOptions, cwd: string): Promise<Finding[]> {
+  const llm = resolveProvider(opts.provider);
+  const unavailable = providerUnavailableReason(opts.provider, llm);
+  if (!llm || unavailable) throw new Error(unavailable ?? 'LLM provider is not available.');
+  const recorded: FakeReply[] = [];
+  const provider = opts.record ? withCompletion(llm, recordReplies(llm.provider.complete, recorded)) : llm;
+  const diff = await readDiff(opts, cwd);
+  const rulesFile = await loadRules(cwd);
+  const findings: Finding[] = [];
+  for (const file of splitDiffByFile(diff)) {
+    // Items outside the added lines are already dropped by the core
+    const rules = rulesFile ? rulesForPath(rulesFile, file.path) : undefined;
+    const items = await analyzeDiff(file.diff, { llm: provider, language: opts.language, rules: isEmptyRules(rules) ? undefined : rules, onStats: s => reportStats(file.path, s) });
+    for (const it of items) {
+      if (passesFilter(it, opts.filter)) findings.push({ ...it, file: file.path });
+    }
+  }
+  if (opts.record) fs.writeFileSync(opts.record, serializeRecording(recorded));
+  return findings;
+}
+
+// Format problems go to stderr so they never mix with json/sarif output
+function reportStats(file: string, s: ResponseStats): void {
+  const rejected = s.invalid + s.outsideDiff;
+  if (!rejected && !s.repaired) return;
+  process.stderr.write(`whycomment: ${file}: rejected ${rejected} of ${s.received} item(s) (${s.invalid} invalid, ${s.outsideDiff} outside diff)${s.repaired ? ' after a repair request' : ''}\n`);
+}
+
+function formatText(findings: Finding[]): string {
+  if (!findings.length) return 'whycomment: no why-questions found.';
+  const lines = findings.map(f => `${f.file}:${f.line + 1}: ${f.removal ? 'removed: ' : ''}${f.message}`);
+  lines.push('', `whycomment: ${findings.length} why-question(s) found.`);
+  return lines.join('\n');
+}
+
+function formatJson(findings: Finding[]): string {
+  const results = findings.map(f => ({ file: f.file, line: f.line + 1, message: f.message, anchor: f.anchor, category: f.category, confidence: f.confidence, removed: f.removal?.text }));
+  return JSON.stringify({ results, count: results.length }, null, 2);
+}
+
+function formatSarif(findings: Finding[]): string {
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'whycomment',
+          informationUri: 'https://github.com/Basio0916/whycomment-vscode',
+          rules: [{
+            id: 'why-comment',
+            shortDescription: { text: 'Changed code that needs a rationale comment' }
+          }]
+        }
+      },
+      results: findings.map(f => ({
+        ruleId: 'why-comment',
+        level: 'note',
+        message: { text: f.message },
+        ...(f.category || f.confidence !== undefined || f.removal ? { properties: { category: f.category, confidence: f.confidence, removed: f.removal?.text } } : {}),
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: f.file.replace(/\\/g, '/') },
+            region: { startLine: f.line + 1, ...(f.anchor ? { snippet: { text: f.anchor } } : {}) }
+          }
+        }]
+      }))
+    }]
+  };
+  return JSON.stringify(sarif, null, 2);
+}
+
+async function installHook(argv: string[], cwd: string): Promise<void> {
+  const force = argv.includes('--force');
+  const hooksDir = await getGitPath(cwd, 'hooks');
+  if (fs.existsSync(hooksDir) && !fs.statSync(hooksDir).isDirectory()) {
+    throw new Error(`Git hooks path ${hooksDir} is not a directory (check core.hooksPath).`);
+  }
+  const hookPath = path.join(hooksDir, 'pre-commit');
+  if (fs.existsSync(hookPath) && !force) {
+    const existing = fs.readFileSync(hookPath, 'utf8');
+    if (!existing.includes(HOOK_MARKER)) {
+      throw new Error(`${hookPath} already exists; re-run with --force to replace it.`);
+    }
+  }
+  const script = [
+    '#!/bin/sh',
+    HOOK_MARKER,
+    'exec npx --no-install whycomment analyze --staged "$@"',
+    ''
+  ].join('\n');
+  fs.mkdirSync(hooksDir, { recursive: true });
+  fs.writeFileSync(hookPath, script, { mode: 0o755 });
+  process.stdout.write(`whycomment: installed pre-commit hook at ${hookPath}\n`);
+}
+
+export async function main(argv: string[]): Promise<number> {
+  const cwd = process.cwd();
+  try {
+    if (argv[0] === '--help' || argv[0] === '-h') {
+      process.stdout.write(USAGE + '\n');
+      return 0;
+    }
+    if (argv[0] === 'install-hook') {
+      await installHook(argv.slice(1), cwd);
+      return 0;
+    }
+    const opts = parseArgs(argv);
+    const findings = await analyze(opts, cwd);
+    const out = opts.format === 'json' ? formatJson(findings)
+      : opts.format === 'sarif' ? formatSarif(findings)
+      : formatText(findings);
+    process.stdout.write(out + '\n');
+    return findings.length > opts.threshold ? 1 : 0;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    process.stderr.write(`whycomment: ${msg}\n`);
+    if (err instanceof UsageError) process.stderr.write(`\n${USAGE}\n`);
+    return 2;
+  }
+}
+
+if (require.main === module) {
+  void main(process.argv.slice(2)).then(code => { process.exitCode = code; });
+}
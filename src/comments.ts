@@ -0,0 +1,296 @@
+// Comment syntax per VS Code languageId.
+
+export interface CommentSyntax {
+  line?: string; // line comment token, e.g. '//'
+  block?: [string, string]; // block delimiters, e.g. ['/*', '*/']
+  docstring?: string; // docstring delimiter placed below a definition, e.g. '"""'
+  // String delimiters, longest first (default: double and single quotes). Backticks and
+  // triple quotes may span lines; other strings end at the end of the line.
+  strings?: string[];
+}
+
+const C_LIKE: CommentSyntax = { line: '//', block: ['/*', '*/'], strings: ['"', "'", '`'] };
+const HASH: CommentSyntax = { line: '#' };
+const MARKUP: CommentSyntax = { block: ['<!--', '-->'], strings: [] };
+const CSS: CommentSyntax = { block: ['/*', '*/'] };
+const PYTHON_STRINGS = ['"""', "'''", '"', "'"];
+const LISP: CommentSyntax = { line: ';', strings: ['"'] };
+
+// null marks formats that cannot hold comments at all
+const registry: Record<string, CommentSyntax | null> = {
+  javascript: C_LIKE,
+  javascriptreact: C_LIKE,
+  typescript: C_LIKE,
+  typescriptreact: C_LIKE,
+  java: C_LIKE,
+  c: C_LIKE,
+  cpp: C_LIKE,
+  csharp: C_LIKE,
+  'objective-c': C_LIKE,
+  'objective-cpp': C_LIKE,
+  go: C_LIKE,
+  // Single quotes also start lifetimes
+  rust: { ...C_LIKE, strings: ['"'] },
+  swift: C_LIKE,
+  kotlin: C_LIKE,
+  scala: C_LIKE,
+  groovy: C_LIKE,
+  dart: C_LIKE,
+  php: C_LIKE,
+  jsonc: C_LIKE,
+  json5: C_LIKE,
+  proto: C_LIKE,
+  zig: { line: '//' },
+  fsharp: { line: '//', block: ['(*', '*)'] },
+  scss: C_LIKE,
+  less: C_LIKE,
+  css: CSS,
+  html: MARKUP,
+  xml: MARKUP,
+  xsl: MARKUP,
+  svg: MARKUP,
+  markdown: MARKUP,
+  python: { line: '#', docstring: '"""', strings: PYTHON_STRINGS },
+  ruby: HASH,
+  perl: HASH,
+  shellscript: HASH,
+  yaml: HASH,
+  toml: HASH,
+  makefile: HASH,
+  dockerfile: HASH,
+  cmake: HASH,
+  r: HASH,
+  elixir: { line: '#', docstring: '"""', strings: PYTHON_STRINGS },
+  nim: HASH,
+  graphql: HASH,
+  properties: HASH,
+  ignore: HASH,
+  dotenv: HASH,
+  terraform: { line: '#', block: ['/*', '*/'] },
+  julia: { line: '#', block: ['#=', '=#'] },
+  coffeescript: { line: '#', block: ['###', '###'] },
+  powershell: { line: '#', block: ['<#', '#>'] },
+  sql: { line: '--', block: ['/*', '*/'] },
+  haskell: { line: '--', block: ['{-', '-}'] },
+  elm: { line: '--', block: ['{-', '-}'] },
+  lua: { line: '--', block: ['--[[', ']]'] },
+  ada: { line: '--' },
+  vhdl: { line: '--' },
+  lisp: LISP,
+  clojure: LISP,
+  scheme: LISP,
+  ini: { line: ';' },
+  erlang: { line: '%' },
+  latex: { line: '%' },
+  tex: { line: '%' },
+  matlab: { line: '%', block: ['%{', '%}'] },
+  bat: { line: 'REM' },
+  vb: { line: "'", strings: ['"'] },
+  vim: { line: '"', strings: ["'"] },
+  fortran: { line: '!' },
+  json: null,
+  jsonl: null,
+  plaintext: null
+};
+
+// Languages whose files mix markup with <script>/<style> regions
+const EMBEDDED_HOSTS = new Set(['html', 'vue', 'svelte']);
+
+/**
+ * Comment syntax for a language, or undefined when the language cannot hold
+ * comments (e.g. JSON) or is not known.
+ */
+export function getCommentSyntax(languageId: string): CommentSyntax | undefined {
+  if (EMBEDDED_HOSTS.has(languageId)) return MARKUP;
+  return registry[languageId] ?? undefined;
+}
+
+/**
+ * Comment syntax that applies at a given 0-based line, taking embedded
+ * <script>/<style> regions of HTML, Vue and Svelte files into account.
+ */
+export function getCommentSyntaxAt(languageId: string, lines: string[], line: number): CommentSyntax | undefined {
+  return commentSyntaxResolver(languageId, lines.slice(0, line + 1))(line);
+}
+
+// Like getCommentSyntaxAt for every line of a file, with the regions computed once
+export function commentSyntaxResolver(languageId: string, lines: string[]): (line: number) => CommentSyntax | undefined {
+  if (!EMBEDDED_HOSTS.has(languageId)) {
+    const syntax = getCommentSyntax(languageId);
+    return () => syntax;
+  }
+  const regions = embeddedRegions(lines);
+  return line => {
+    const region = regions[line] ?? 'markup';
+    return region === 'script' ? C_LIKE : region === 'style' ? CSS : MARKUP;
+  };
+}
+
+// Region each line starts in
+function embeddedRegions(lines: string[]): ('markup' | 'script' | 'style')[] {
+  let region: 'markup' | 'script' | 'style' = 'markup';
+  const out: ('markup' | 'script' | 'style')[] = [];
+  const tag = /<(\/?)(script|style)\b[^>]*?(\/?)>/gi;
+  for (const text of lines) {
+    out.push(region);
+    tag.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = tag.exec(text))) {
+      const closing = m[1] === '/';
+      const selfClosing = m[3] === '/';
+      const name = m[2].toLowerCase() as 'script' | 'style';
+      if (closing) {
+        if (region === name) region = 'markup';
+      } else if (!selfClosing && region === 'markup') {
+        region = name;
+      }
+    }
+  }
+  return out;
+}
+
+// Render comment text as a single comment line (without indentation)
+export function formatComment(syntax: CommentSyntax, text: string): string {
+  const raw = text.trim();
+  if (syntax.line) {
+    return startsWithLineMarker(raw, syntax.line) ? raw : `${syntax.line} ${raw}`;
+  }
+  if (syntax.block) {
+    const [open, close] = syntax.block;
+    return raw.startsWith(open) && raw.endsWith(close) ? raw : `${open} ${raw} ${close}`;
+  }
+  return raw;
+}
+
+// A word marker such as REM is case-insensitive and must stand alone, so `REMOVE` and `rem.txt` are code
+function startsWithLineMarker(text: string, marker: string): boolean {
+  if (!/\w$/.test(marker)) return text.startsWith(marker);
+  return text.slice(0, marker.length).toUpperCase() === marker.toUpperCase() && !/\S/.test(text.charAt(marker.length));
+}
+
+// What the tokenizer found on one line
+export interface LineComments {
+  code: boolean; // has tokens outside comments and docstrings (other strings count as code)
+  comments: string[]; // text of each comment (or part of a block comment) on the line, markers stripped
+  docstring: boolean; // part of a triple-quoted string that starts its line
+}
+
+/**
+ * Tokenize the file just enough to tell comments from code: strings (including
+ * multi-line template literals and triple quotes) and block comments are
+ * tracked across lines, so `"http://..."` is not a comment and a JSDoc body is.
+ */
+export function scanComments(lines: string[], syntaxAt: (line: number) => CommentSyntax | undefined): LineComments[] {
+  const out: LineComments[] = [];
+  // Open construct carried over from the previous line
+  let open: { kind: 'block'; close: string } | { kind: 'string'; close: string; docstring: boolean } | undefined;
+  for (let i = 0; i < lines.length; i++) {
+    const text = lines[i];
+    const syntax = syntaxAt(i) ?? {};
+    const info: LineComments = { code: false, comments: [], docstring: false };
+    let pos = 0;
+    let commentStart = -1; // start of comment text within this line, while in a block comment
+    if (open?.kind === 'block') commentStart = 0;
+    if (open?.kind === 'string' && open.docstring) info.docstring = true;
+    while (pos < text.length) {
+      if (open?.kind === 'block') {
+        const end = text.indexOf(open.close, pos);
+        if (end < 0) { pos = text.length; break; }
+        info.comments.push(text.slice(commentStart, end));
+        pos = end + open.close.length;
+        open = undefined;
+        continue;
+      }
+      if (open?.kind === 'string') {
+        const end = findStringEnd(text, pos, open.close);
+        if (end < 0) { pos = text.length; break; }
+        pos = end + open.close.length;
+        open = undefined;
+        continue;
+      }
+      const rest = text.slice(pos);
+      if (/^\s/.test(rest)) { pos++; continue; }
+      if (syntax.block && rest.startsWith(syntax.block[0])) {
+        open = { kind: 'block', close: syntax.block[1] };
+        pos += syntax.block[0].length;
+        commentStart = pos;
+        continue;
+      }
+      if (syntax.line && startsWithLineMarker(rest, syntax.line)) {
+        info.comments.push(rest.slice(syntax.line.length));
+        pos = text.length;
+        break;
+      }
+      const quote = (syntax.strings ?? ['"', "'"]).find(q => rest.startsWith(q));
+      if (quote) {
+        const multiline = quote.length === 3 || quote === '`';
+        const docstring = !!syntax.docstring && quote.length === 3 && !info.code;
+        if (docstring) info.docstring = true; else info.code = true;
+        const end = findStringEnd(text, pos + quote.length, quote);
+        if (end >= 0) {
+          pos = end + quote.length;
+        } else {
+          if (multiline) open = { kind: 'string', close: quote, docstring };
+          pos = text.length;
+        }
+        continue;
+      }
+      info.code = true;
+      pos++;
+    }
+    if (open?.kind === 'block') info.comments.push(text.slice(Math.max(0, commentStart)));
+    out.push(info);
+  }
+  return out;
+}
+
+// Index of the closing quote at or after `from`, skipping backslash escapes; -1 if the line ends first
+function findStringEnd(text: string, from: number, quote: string): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') { i++; continue; }
+    if (text.startsWith(quote, i)) return i;
+  }
+  return -1;
+}
+
+// Tool and linter directives, which say nothing about why the code is the way it is
+const PRAGMA = /^(?:eslint\b|tslint:|prettier-ignore|@prettier\b|@format\b|istanbul\s|c8\s|v8\s|jshint\b|global\s|@ts-|ts-(?:check|nocheck|ignore|expect-error)\b|noqa\b|type:\s*ignore|pylint:|mypy:|pyright:|fmt:\s*(?:on|off|skip)|isort:|nolint\b|rubocop:|#?(?:end)?region\b|pragma\b|whycomment-|@flow\b|@jsx\b|<reference\s|-\*-|nosec\b|noinspection\b|go:|\+build\b|clang-format\s|cspell:|spell-checker:|biome-ignore|deno-lint-ignore)/i;
+// A shebang ("#!/usr/bin/env node") reads as a '#' comment; checked before commentBody strips the '!'
+const SHEBANG = /^!\//;
+
+// Comment text with JSDoc-style leading '*' / '!' removed
+function commentBody(text: string): string {
+  return text.trim().replace(/^[*!]+\s*/, '').trim();
+}
+
+// A comment that could explain something: has words and is not a tool directive
+export function isExplanatoryComment(text: string): boolean {
+  if (SHEBANG.test(text.trim())) return false;
+  const body = commentBody(text);
+  return /\p{L}/u.test(body) && !PRAGMA.test(body);
+}
+
+/**
+ * Whether the statement at `line` already carries an explanation: a trailing
+ * comment on the same line, a comment block directly above it (no blank line
+ * in between), or a docstring right below a definition line ending in ':'.
+ * Pragmas such as `// eslint-disable-next-line` do not count.
+ */
+export function isAlreadyExplained(scan: LineComments[], lines: string[], line: number): boolean {
+  const at = scan[line];
+  if (!at) return false;
+  if (at.comments.some(isExplanatoryComment)) return true;
+  for (let i = line - 1; i >= 0; i--) {
+    const above = scan[i];
+    // Blank lines and code end the attached block
+    if (above.code || (!above.comments.length && !above.docstring && !lines[i].trim())) break;
+    if (above.comments.some(isExplanatoryComment)) return true;
+    if (!above.comments.length && !above.docstring) break;
+  }
+  if (lines[line].trimEnd().endsWith(':')) {
+    let i = line + 1;
+    while (i < lines.length && !lines[i].trim()) i++;
+    if (scan[i]?.docstring) return true;
+  }
+  return false;
+}
@@ -1,30 +1,75 @@
 import * as vscode from 'vscode';
+import { SUGGESTION_CATEGORIES, SuggestionCategory } from './analysis';
+import { DiffScope } from './types';
+import { DiagnosticSeveritySetting } from './diagnostics';
+import { InlineStyle } from './inline';
+import { apiKeyFromEnv } from './providers';
+import { getApiKey } from './secrets';
 
 export interface WhyConfig {
-  apiKey: string;
-  apiProvider: 'openai' | 'claude';
+  apiKey: string; // from secret storage, else the environment (CLI/test path); never from settings
+  apiProvider: string; // id of a registered provider (see providers.ts)
   contextLines: number;
+  diffScope: DiffScope;
   excludePatterns: string[];
   autoAnalyze: boolean;
   debounceMs: number;
+  maxConcurrentAnalyses: number;
+  // Request/token budget; 0 means unlimited
+  dailyRequestLimit: number;
+  monthlyRequestLimit: number;
+  dailyTokenLimit: number;
+  monthlyTokenLimit: number;
+  cacheMaxEntries: number;
+  cacheTtlHours: number; // 0 keeps results until evicted
+  minConfidence: number; // 0..1; questions the model is less sure about are dropped
+  enabledCategories: SuggestionCategory[];
+  diagnosticSeverity: DiagnosticSeveritySetting;
+  inlineStyle: InlineStyle;
   outputLanguage: 'auto' | 'en' | 'ja';
   openaiModel: string;
   claudeModel: string;
+  openaiCompatibleBaseUrl: string;
+  openaiCompatibleModel: string;
+  chunkTokens: number; // diff tokens per request; 0 picks a size for the model
 }
 
-export function getConfig(): WhyConfig {
+// Everything except the API key, which lives in secret storage
+export type WhySettings = Omit<WhyConfig, 'apiKey'>;
+
+export function getSettings(): WhySettings {
   const c = vscode.workspace.getConfiguration('whycomment');
   return {
-    apiKey: c.get('apiKey', ''),
     apiProvider: c.get('apiProvider', 'claude'),
     contextLines: c.get('contextLines', 1),
+    diffScope: c.get('diffScope', 'all'),
     excludePatterns: c.get('excludePatterns', ["**/*.test.*", "**/*.spec.*"]),
     autoAnalyze: c.get('autoAnalyze', true),
     debounceMs: c.get('debounceMs', 1000),
+    maxConcurrentAnalyses: c.get('maxConcurrentAnalyses', 3),
+    dailyRequestLimit: c.get('dailyRequestLimit', 0),
+    monthlyRequestLimit: c.get('monthlyRequestLimit', 0),
+    dailyTokenLimit: c.get('dailyTokenLimit', 0),
+    monthlyTokenLimit: c.get('monthlyTokenLimit', 0),
+    cacheMaxEntries: c.get('cacheMaxEntries', 500),
+    cacheTtlHours: c.get('cacheTtlHours', 168),
+    minConfidence: c.get('minConfidence', 0),
+    enabledCategories: c.get<SuggestionCategory[]>('enabledCategories', [...SUGGESTION_CATEGORIES]),
+    diagnosticSeverity: c.get('diagnosticSeverity', 'information'),
+    inlineStyle: c.get('inlineStyle', 'codelens'),
     outputLanguage: c.get('outputLanguage', 'auto'),
     openaiModel: c.get('openaiModel', 'gpt-4o-mini'),
-    claudeModel: c.get('claudeModel', 'claude-3-5-haiku-latest')
-  } satisfies WhyConfig;
+    claudeModel: c.get('claudeModel', 'claude-3-5-haiku-latest'),
+    openaiCompatibleBaseUrl: c.get('openaiCompatibleBaseUrl', 'http://localhost:11434/v1'),
+    openaiCompatibleModel: c.get('openaiCompatibleModel', 'llama3.1'),
+    chunkTokens: c.get('chunkTokens', 0)
+  } satisfies WhySettings;
+}
+
+export async function getConfig(): Promise<WhyConfig> {
+  const settings = getSettings();
+  const apiKey = (await getApiKey(settings.apiProvider)) || apiKeyFromEnv(settings.apiProvider);
+  return { ...settings, apiKey };
 }
 
 export function onConfigChange(listener: () => void): vscode.Disposable {
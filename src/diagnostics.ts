@@ -0,0 +1,72 @@
+import * as vscode from 'vscode';
+import { Suggestion } from './types';
+
+export type DiagnosticSeveritySetting = 'off' | 'error' | 'warning' | 'information' | 'hint';
+
+const SOURCE = 'WhyComment';
+
+function toSeverity(setting: DiagnosticSeveritySetting): vscode.DiagnosticSeverity | undefined {
+  switch (setting) {
+    case 'error': return vscode.DiagnosticSeverity.Error;
+    case 'warning': return vscode.DiagnosticSeverity.Warning;
+    case 'information': return vscode.DiagnosticSeverity.Information;
+    case 'hint': return vscode.DiagnosticSeverity.Hint;
+    default: return undefined;
+  }
+}
+
+// Mirrors active suggestions into the Problems panel as diagnostics
+export class SuggestionDiagnostics implements vscode.Disposable {
+  private collection = vscode.languages.createDiagnosticCollection('whycomment');
+
+  constructor(private getItems: () => Suggestion[], private getSeverity: () => DiagnosticSeveritySetting) {}
+
+  refresh(): void {
+    this.collection.clear();
+    const severity = toSeverity(this.getSeverity());
+    if (severity === undefined) return;
+    const byFile = new Map<string, { uri: vscode.Uri; diags: vscode.Diagnostic[] }>();
+    for (const s of this.getItems()) {
+      const key = s.uri.toString();
+      const entry = byFile.get(key) ?? { uri: s.uri, diags: [] };
+      // End column is clamped to the line length by VS Code
+      const range = new vscode.Range(s.line, 0, s.line, Number.MAX_SAFE_INTEGER);
+      const d = new vscode.Diagnostic(range, s.message, severity);
+      d.source = SOURCE;
+      entry.diags.push(d);
+      byFile.set(key, entry);
+    }
+    for (const { uri, diags } of byFile.values()) this.collection.set(uri, diags);
+  }
+
+  dispose(): void {
+    this.collection.dispose();
+  }
+}
+
+// Quick Fixes on lines with an active suggestion, reusing the tree item commands
+export class SuggestionCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  constructor(private getItems: (uri: vscode.Uri) => Suggestion[]) {}
+
+  provideCodeActions(document: vscode.TextDocument, range: vscode.Range | vscode.Selection, context: vscode.CodeActionContext): vscode.CodeAction[] {
+    const items = this.getItems(document.uri).filter(s => s.line >= range.start.line && s.line <= range.end.line);
+    const actions: vscode.CodeAction[] = [];
+    for (const s of items) {
+      const diags = context.diagnostics.filter(d => d.source === SOURCE && d.range.start.line === s.line);
+      const make = (title: string, command: string, preferred?: boolean) => {
+        const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+        action.command = { title, command, arguments: [{ suggestion: s }] };
+        action.diagnostics = diags;
+        action.isPreferred = preferred;
+        actions.push(action);
+      };
+      make('Insert why-comment…', 'whycomment.applySuggestion', true);
+      if (s.removal) make('Explain removal in commit message…', 'whycomment.addToCommitMessage');
+      else make('Suggest comment variants', 'whycomment.suggestComments');
+      make('Ignore', 'whycomment.ignoreSuggestion');
+    }
+    return actions;
+  }
+}
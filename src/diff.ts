@@ -0,0 +1,293 @@
+// The one unified-diff parser: `git diff` output (several files, renames, binaries),
+// plain `diff -u` patches and bare hunks built in memory all go through here.
+// Editor-independent so the CLI parses exactly like the extension.
+
+export type DiffLineType = 'add' | 'del' | 'context';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string; // without the +/-/space prefix and a trailing CR
+  oldLine?: number; // 1-based; absent for added lines
+  newLine?: number; // 1-based; absent for deleted lines
+  index: number; // 0-based line of the parsed text, for rewriting the diff in place
+}
+
+export interface DiffHunk {
+  oldStart: number; // 1-based; 0 when the old side is empty
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+  index: number; // 0-based line of the "@@" header in the parsed text
+}
+
+export type FileStatus = 'added' | 'deleted' | 'modified' | 'renamed' | 'copied';
+
+export interface FilePatch {
+  oldPath?: string; // absent for added files and bare hunks
+  newPath?: string; // absent for deleted files and bare hunks
+  status: FileStatus;
+  binary: boolean;
+  hunks: DiffHunk[];
+  text: string; // the part of the input that belongs to this file
+}
+
+// New-side path and diff text of one file, as fed to the model
+export interface FileDiff {
+  path: string;
+  diff: string;
+}
+
+// Counts are optional: "@@ -1 +1 @@" means one line on each side
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parse a unified diff into per-file patches. Hunk bodies are read by their
+ * line counts, so removed lines that look like headers ("--- x") stay content.
+ * CRLF line endings and "\ No newline at end of file" markers are dropped.
+ */
+export function parseUnifiedDiff(diff: string): FilePatch[] {
+  const raw = diff.split('\n');
+  const lines = raw.map(l => l.endsWith('\r') ? l.slice(0, -1) : l);
+  const files: FilePatch[] = [];
+  let file: (FilePatch & { start: number; sawHeader: boolean }) | undefined;
+  let hunk: DiffHunk | undefined;
+  let oldLeft = 0;
+  let newLeft = 0;
+  let oldLine = 0;
+  let newLine = 0;
+
+  const startFile = (start: number) => {
+    finishFile(start);
+    file = { status: 'modified', binary: false, hunks: [], text: '', start, sawHeader: false };
+  };
+  const finishFile = (end: number) => {
+    if (!file) return;
+    const { start, sawHeader, ...patch } = file;
+    patch.text = raw.slice(start, end).join('\n');
+    files.push(patch);
+    file = undefined;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (hunk && (oldLeft > 0 || newLeft > 0)) {
+      const type = line[0];
+      // Some tools strip the space from empty context lines
+      if (type === ' ' || line === '') {
+        hunk.lines.push({ type: 'context', text: line.slice(1), oldLine, newLine, index: i });
+        oldLine++; newLine++; oldLeft--; newLeft--;
+        continue;
+      }
+      if (type === '-') {
+        hunk.lines.push({ type: 'del', text: line.slice(1), oldLine, index: i });
+        oldLine++; oldLeft--;
+        continue;
+      }
+      if (type === '+') {
+        hunk.lines.push({ type: 'add', text: line.slice(1), newLine, index: i });
+        newLine++; newLeft--;
+        continue;
+      }
+      if (type === '\\') continue;
+      // Truncated hunk: fall through and read the line as a header
+      hunk = undefined;
+    }
+    if (line.startsWith('\\')) continue;
+
+    if (line.startsWith('diff --git ')) {
+      startFile(i);
+      const paths = parseGitHeaderPaths(line.slice('diff --git '.length));
+      file!.oldPath = paths?.[0];
+      file!.newPath = paths?.[1];
+      hunk = undefined;
+      continue;
+    }
+    // Plain `diff -u` output has no "diff --git" line; a new ---/+++ pair starts the next file
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      if (!file || file.sawHeader || file.hunks.length) startFile(i);
+      const oldPath = headerPath(line.slice(4), 'a/');
+      const newPath = headerPath(lines[i + 1].slice(4), 'b/');
+      file!.sawHeader = true;
+      file!.oldPath = oldPath;
+      file!.newPath = newPath;
+      if (oldPath === undefined) file!.status = 'added';
+      else if (newPath === undefined) file!.status = 'deleted';
+      hunk = undefined;
+      i++;
+      continue;
+    }
+    const m = line.match(HUNK_HEADER);
+    if (m) {
+      // Bare hunks (no file header) belong to one anonymous file
+      if (!file) startFile(i);
+      hunk = {
+        oldStart: parseInt(m[1], 10),
+        oldLines: m[2] === undefined ? 1 : parseInt(m[2], 10),
+        newStart: parseInt(m[3], 10),
+        newLines: m[4] === undefined ? 1 : parseInt(m[4], 10),
+        lines: [],
+        index: i
+      };
+      file!.hunks.push(hunk);
+      oldLeft = hunk.oldLines;
+      newLeft = hunk.newLines;
+      // An empty side is numbered from the line before the change ("-0,0")
+      oldLine = hunk.oldLines ? hunk.oldStart : hunk.oldStart + 1;
+      newLine = hunk.newLines ? hunk.newStart : hunk.newStart + 1;
+      continue;
+    }
+    if (!file) continue;
+    // Extended git headers
+    if (line.startsWith('new file mode')) {
+      file.status = 'added';
+      file.oldPath = undefined;
+    } else if (line.startsWith('deleted file mode')) {
+      file.status = 'deleted';
+      file.newPath = undefined;
+    } else if (line.startsWith('rename from ')) {
+      file.status = 'renamed';
+      file.oldPath = unquote(line.slice('rename from '.length));
+    } else if (line.startsWith('rename to ')) {
+      file.newPath = unquote(line.slice('rename to '.length));
+    } else if (line.startsWith('copy from ')) {
+      file.status = 'copied';
+      file.oldPath = unquote(line.slice('copy from '.length));
+    } else if (line.startsWith('copy to ')) {
+      file.newPath = unquote(line.slice('copy to '.length));
+    } else if (line === 'GIT binary patch' || /^Binary files .* differ$/.test(line)) {
+      file.binary = true;
+    }
+  }
+  finishFile(raw.length);
+  return files;
+}
+
+// Hunks of every file in the diff, in order
+export function diffHunks(diff: string): DiffHunk[] {
+  return parseUnifiedDiff(diff).flatMap(f => f.hunks);
+}
+
+// 0-based new-file line numbers of every added line in the diff
+export function addedLines(diff: string): Set<number> {
+  const set = new Set<number>();
+  for (const h of diffHunks(diff)) {
+    for (const l of h.lines) {
+      if (l.type === 'add') set.add(l.newLine! - 1);
+    }
+  }
+  return set;
+}
+
+// Trimmed text of every added line in the diff
+export function addedLineTexts(diff: string): Set<string> {
+  const set = new Set<string>();
+  for (const h of diffHunks(diff)) {
+    for (const l of h.lines) {
+      if (l.type === 'add') set.add(l.text.trim());
+    }
+  }
+  return set;
+}
+
+// A deleted line and the surviving new-file line closest to where it was
+export interface RemovedLine {
+  oldLine: number; // 0-based line in the old file
+  text: string;
+  siteLine: number; // 0-based new-file line: the first line after the deletion, else the last one before it
+  siteText?: string; // that line's text, when the diff shows it
+}
+
+// Every deleted line of the diff, keyed by its 0-based old-file line
+export function removedLines(diff: string): Map<number, RemovedLine> {
+  const out = new Map<number, RemovedLine>();
+  for (const h of diffHunks(diff)) {
+    for (const removed of hunkRemovedLines(h)) out.set(removed.oldLine, removed);
+  }
+  return out;
+}
+
+// Deleted lines of one hunk, in order
+export function hunkRemovedLines(h: DiffHunk): RemovedLine[] {
+  const out: RemovedLine[] = [];
+  let pending: RemovedLine[] = [];
+  let before: DiffLine | undefined;
+  for (const l of h.lines) {
+    if (l.type === 'del') {
+      const removed: RemovedLine = { oldLine: l.oldLine! - 1, text: l.text, siteLine: 0 };
+      pending.push(removed);
+      out.push(removed);
+      continue;
+    }
+    for (const p of pending) { p.siteLine = l.newLine! - 1; p.siteText = l.text; }
+    pending = [];
+    before = l;
+  }
+  // Deleted at the end of the hunk: fall back to the line above, else the position after the hunk
+  for (const p of pending) {
+    if (before) { p.siteLine = before.newLine! - 1; p.siteText = before.text; }
+    else p.siteLine = h.newLines ? h.newStart + h.newLines - 1 : h.newStart;
+  }
+  return out;
+}
+
+// Split a multi-file diff into per-file diffs; deleted and binary files are skipped
+export function splitDiffByFile(diff: string): FileDiff[] {
+  return parseUnifiedDiff(diff)
+    .filter(f => f.newPath !== undefined && !f.binary && f.hunks.length)
+    .map(f => ({ path: f.newPath!, diff: f.text }));
+}
+
+// Diff of a file that did not exist before, e.g. an untracked file or one in a repository without commits
+export function addedFileDiff(relPath: string, content: string): string {
+  const lines = content.split(/\r?\n/);
+  // A trailing newline ends the last line rather than starting another
+  if (lines[lines.length - 1] === '') lines.pop();
+  const header = [`diff --git a/${relPath} b/${relPath}`, 'new file mode 100644', '--- /dev/null', `+++ b/${relPath}`];
+  if (!lines.length) return header.join('\n');
+  return [...header, `@@ -0,0 +1,${lines.length} @@`, ...lines.map(l => `+${l}`)].join('\n');
+}
+
+// "--- a/src/x.ts\t2024-01-01" -> "src/x.ts"; /dev/null -> undefined
+function headerPath(value: string, prefix: string): string | undefined {
+  const p = unquote(value.split('\t')[0].trimEnd());
+  if (p === '/dev/null') return undefined;
+  return p.startsWith(prefix) ? p.slice(prefix.length) : p;
+}
+
+// "a/x b/y" (either side possibly quoted) -> ["x", "y"]; ambiguous unquoted names with spaces split where both sides match
+function parseGitHeaderPaths(rest: string): [string, string] | undefined {
+  const quoted = rest.match(/^("(?:[^"\\]|\\.)*"|\S+) ("(?:[^"\\]|\\.)*"|\S+)$/);
+  const strip = (p: string, prefix: string) => p.startsWith(prefix) ? p.slice(prefix.length) : p;
+  if (quoted) return [strip(unquote(quoted[1]), 'a/'), strip(unquote(quoted[2]), 'b/')];
+  const half = (rest.length - 1) / 2;
+  if (Number.isInteger(half) && rest[half] === ' ' && rest.slice(2, half) === rest.slice(half + 3)) {
+    return [rest.slice(2, half), rest.slice(half + 3)];
+  }
+  const m = rest.match(/^a\/(.+) b\/(.+)$/);
+  return m ? [m[1], m[2]] : undefined;
+}
+
+// Git C-quotes paths with special characters: "caf\303\251.txt"
+function unquote(p: string): string {
+  if (!(p.length >= 2 && p.startsWith('"') && p.endsWith('"'))) return p;
+  const bytes: number[] = [];
+  const body = p.slice(1, -1);
+  const escapes: Record<string, number> = { n: 10, t: 9, r: 13, b: 8, f: 12, v: 11, a: 7, '"': 34, '\\': 92 };
+  for (let i = 0; i < body.length; i++) {
+    const c = body[i];
+    if (c !== '\\') {
+      bytes.push(...Buffer.from(c, 'utf8'));
+      continue;
+    }
+    const next = body[i + 1];
+    if (/[0-7]/.test(next)) {
+      bytes.push(parseInt(body.slice(i + 1, i + 4), 8));
+      i += 3;
+    } else {
+      bytes.push(escapes[next] ?? next.charCodeAt(0));
+      i++;
+    }
+  }
+  return Buffer.from(bytes).toString('utf8');
+}
@@ -0,0 +1,112 @@
+// Source-level suppression directives, written with the language's own comment syntax:
+//   whycomment-ignore-next-line          the following line
+//   whycomment-disable / whycomment-enable  every line in between (to end of file if not re-enabled)
+//   whycomment-disable-file              the whole file
+import { CommentSyntax, scanComments } from './comments';
+import { DiffLine, diffHunks, hunkRemovedLines } from './diff';
+
+export interface Suppressions {
+  file: boolean;
+  lines: Set<number>; // 0-based
+}
+
+const DIRECTIVE = /\bwhycomment-(ignore-next-line|disable-file|disable|enable)\b/;
+
+type Directive = 'ignore-next-line' | 'disable-file' | 'disable' | 'enable';
+
+export function findSuppressions(lines: string[], syntaxAt: (line: number) => CommentSyntax | undefined): Suppressions {
+  const out: Suppressions = { file: false, lines: new Set() };
+  // Cheap pre-check; most files have no directives and need no tokenizing
+  if (!lines.some(l => l.includes('whycomment-'))) return out;
+  // Only real comments count, so strings that merely mention a directive are ignored
+  const scan = scanComments(lines, syntaxAt);
+  let disabledFrom: number | undefined;
+  for (let i = 0; i < lines.length; i++) {
+    const m = scan[i].comments.map(c => DIRECTIVE.exec(c)).find(Boolean);
+    if (!m) continue;
+    const directive = m[1] as Directive;
+    if (directive === 'disable-file') {
+      out.file = true;
+      return out;
+    }
+    if (directive === 'ignore-next-line') {
+      out.lines.add(i + 1);
+    } else if (directive === 'disable') {
+      disabledFrom ??= i;
+    } else if (disabledFrom !== undefined) {
+      for (let j = disabledFrom; j <= i; j++) out.lines.add(j);
+      disabledFrom = undefined;
+    }
+  }
+  if (disabledFrom !== undefined) {
+    for (let j = disabledFrom; j < lines.length; j++) out.lines.add(j);
+  }
+  return out;
+}
+
+/**
+ * Drop suppressed lines from a diff so they are never sent to the model: added
+ * lines at the given 0-based new-file lines, and deleted lines whose nearest
+ * surviving line (see hunkRemovedLines) is one of them. Hunks are split around
+ * the dropped lines and get recomputed headers, so the result is still a valid
+ * unified diff and every remaining line keeps its numbers.
+ */
+export function maskSuppressedLines(diff: string, lines: Set<number>): string {
+  if (!lines.size) return diff;
+  const raw = diff.split('\n');
+  // Header index of a rewritten hunk -> its replacement and the index just past its body
+  const rewritten = new Map<number, { text: string[]; end: number }>();
+  for (const h of diffHunks(diff)) {
+    const removals = hunkRemovedLines(h);
+    let nextRemoval = 0;
+    const masked = h.lines.map(l => {
+      if (l.type === 'add') return lines.has(l.newLine! - 1);
+      if (l.type === 'del') return lines.has(removals[nextRemoval++].siteLine);
+      return false;
+    });
+    if (!masked.includes(true)) continue;
+    const text: string[] = [];
+    // 1-based positions of the next old and new line, as in the parser
+    let oldPos = h.oldLines ? h.oldStart : h.oldStart + 1;
+    let newPos = h.newLines ? h.newStart : h.newStart + 1;
+    let segment: DiffLine[] = [];
+    let segmentOld = oldPos;
+    let segmentNew = newPos;
+    const flush = () => {
+      // Context alone tells the model nothing
+      if (segment.some(l => l.type !== 'context')) {
+        const oldCount = segment.filter(l => l.type !== 'add').length;
+        const newCount = segment.filter(l => l.type !== 'del').length;
+        // An empty side is numbered from the line before the change
+        text.push(`@@ -${oldCount ? segmentOld : segmentOld - 1},${oldCount} +${newCount ? segmentNew : segmentNew - 1},${newCount} @@`);
+        for (const l of segment) {
+          text.push(raw[l.index]);
+          if (raw[l.index + 1]?.startsWith('\\')) text.push(raw[l.index + 1]);
+        }
+      }
+      segment = [];
+    };
+    h.lines.forEach((l, i) => {
+      if (masked[i]) {
+        flush();
+      } else {
+        if (!segment.length) { segmentOld = oldPos; segmentNew = newPos; }
+        segment.push(l);
+      }
+      if (l.type !== 'add') oldPos++;
+      if (l.type !== 'del') newPos++;
+    });
+    flush();
+    const last = h.lines[h.lines.length - 1];
+    const end = raw[last.index + 1]?.startsWith('\\') ? last.index + 2 : last.index + 1;
+    rewritten.set(h.index, { text, end });
+  }
+  const out: string[] = [];
+  for (let i = 0; i < raw.length; i++) {
+    const hunk = rewritten.get(i);
+    if (!hunk) { out.push(raw[i]); continue; }
+    out.push(...hunk.text);
+    i = hunk.end - 1;
+  }
+  return out.join('\n');
+}
@@ -1,58 +1,166 @@
 import * as vscode from 'vscode';
-import { getConfig, onConfigChange } from './config';
-import { anyGlobMatch, getLineCommentToken, revealPosition, showInfo, isUnderWorkspace } from './utils';
-import { getDiffForFile } from './git';
+import * as path from 'path';
+import { getConfig, getSettings, onConfigChange } from './config';
+import { ConcurrencyLimiter, abortControllerFor, anyGlobMatch, documentLines, getLog, isCancellation, revealPosition, runWithConcurrency, showInfo, isUnderWorkspace } from './utils';
+import { commentSyntaxResolver, formatComment, getCommentSyntaxAt, isAlreadyExplained, scanComments } from './comments';
+import { clearRepoRootCache, getChangedFiles, getDefaultBaseRef, getDiffForFile, getMergeBase, getNameStatus, getRepoRoot, getStagedContent, listRefs, listRepositories } from './git';
 // Static heuristics removed per project decision (LLM-only)
 import { analyzeWithLLM } from './llm';
-import { Suggestion } from './types';
+import { SuggestionFilter, passesFilter } from './analysis';
+import { addedLineTexts, addedLines } from './diff';
+import { ResolvedProvider, getProvider, listProviders, providerUnavailableReason, resolveProvider, withCompletion } from './providers';
+import { deleteApiKey, getApiKey, initSecrets, migrateApiKeySetting, onDidChangeApiKey, setApiKey } from './secrets';
+import { DiffScope, Suggestion } from './types';
 import { SuggestionStore } from './suggestions';
 import { SuggestionTreeProvider } from './tree';
+import { SuggestionCodeActionProvider, SuggestionDiagnostics } from './diagnostics';
+import { SuggestionCodeLensProvider, SuggestionDecorations, revealAdjacentSuggestion } from './inline';
+import { ResultCache } from './resultCache';
+import { WorkspaceRules } from './workspaceRules';
+import { BaselineItem, SuppressionBaseline } from './baseline';
+import { Suppressions, findSuppressions, maskSuppressedLines } from './directives';
+import { BudgetExceededError, BudgetLimits, BudgetStatusBar, RequestBudget, describeUsage } from './budget';
+import { REPORT_EXTENSIONS, ReportEntry, ReportFormat, renderReport } from './report';
 
 let store: SuggestionStore;
 let tree: SuggestionTreeProvider;
 let treeView: vscode.TreeView<any>;
+let budget: RequestBudget;
 const debounceTimers = new Map<string, NodeJS.Timeout>();
-const cache = new Map<string, Suggestion[]>(); // diff-hash -> suggestions
+let resultCache: ResultCache;
+let workspaceRules: WorkspaceRules;
+let baseline: SuppressionBaseline;
 // Keep last analyzed file text to send incremental diffs only
 const previousTextByFile = new Map<string, string>();
+// Latest analysis per file; starting a newer one aborts the older so stale results never land
+const inFlight = new Map<string, AbortController>();
+// Settles once persisted suggestions are restored; analyses wait for it so restored state never overwrites fresh results
+let restored: Promise<void> = Promise.resolve();
+// Global cap on concurrent LLM requests across saves, selections, batch runs and diff chunks
+const llmLimiter = new ConcurrencyLimiter(() => getSettings().maxConcurrentAnalyses);
 
-function progressLocation(manual?: boolean): vscode.ProgressLocation {
-  return manual ? vscode.ProgressLocation.Notification : vscode.ProgressLocation.Window;
+// Every request waits for a limiter slot, then is checked against and counted toward the budget
+function gated(llm: ResolvedProvider): ResolvedProvider {
+  const metered = budget.meter(llm);
+  return withCompletion(metered, (messages, req, signal) => llmLimiter.run(() => metered.provider.complete(messages, req, signal), signal));
 }
 
-async function withLLMProgress<T>(title: string, manual: boolean | undefined, fn: () => Promise<T>): Promise<T> {
-  return vscode.window.withProgress({ location: progressLocation(manual), title }, async () => await fn());
+function budgetLimits(): BudgetLimits {
+  const cfg = getSettings();
+  return {
+    dailyRequests: cfg.dailyRequestLimit,
+    monthlyRequests: cfg.monthlyRequestLimit,
+    dailyTokens: cfg.dailyTokenLimit,
+    monthlyTokens: cfg.monthlyTokenLimit
+  };
 }
 
 export function activate(context: vscode.ExtensionContext) {
-  store = new SuggestionStore();
-  tree = new SuggestionTreeProvider(() => collectAllSuggestions());
+  initSecrets(context.secrets);
+  void migrateApiKeySetting().then(migrated => {
+    if (migrated) void vscode.window.showInformationMessage('WhyComment: Your API key was moved from settings to secure storage.');
+  }, err => getLog().error(`API key migration failed: ${err instanceof Error ? err.message : String(err)}`));
+  store = new SuggestionStore(context.workspaceState);
+  budget = new RequestBudget(context.globalState, budgetLimits);
+  workspaceRules = new WorkspaceRules();
+  resultCache = new ResultCache(context.globalStorageUri, () => {
+    const cfg = getSettings();
+    return { maxEntries: cfg.cacheMaxEntries, ttlMs: cfg.cacheTtlHours * 3600 * 1000 };
+  }, message => getLog().error(message));
+  // Why the configured provider cannot run (e.g. no stored key); refreshed when its settings or key change
+  let providerUnavailable: string | undefined;
+  const budgetStatus = new BudgetStatusBar(budget, budgetLimits, () => providerUnavailable);
+  const refreshProviderStatus = async () => {
+    const cfg = await getConfig();
+    providerUnavailable = providerUnavailableReason(cfg, resolveProvider(cfg));
+    budgetStatus.refresh();
+  };
+  void refreshProviderStatus();
+  baseline = new SuppressionBaseline();
+  tree = new SuggestionTreeProvider(() => collectAllSuggestions(), () => baseline.items());
   treeView = vscode.window.createTreeView('whycommentView', { treeDataProvider: tree });
+  const diagnostics = new SuggestionDiagnostics(() => collectAllSuggestions(), () => getSettings().diagnosticSeverity);
+  const activeForFile = (uri: vscode.Uri) => store.getForFile(uri).filter(s => !s.applied && !s.ignored);
+  const codeLenses = new SuggestionCodeLensProvider(activeForFile, () => getSettings().inlineStyle);
+  const decorations = new SuggestionDecorations(activeForFile, () => getSettings().inlineStyle);
+  const refreshInline = () => { codeLenses.refresh(); decorations.refresh(); };
+  // Restore after the baseline is loaded so suppressed questions do not flash back
+  restored = baseline.loadAll().then(restoreSuggestions).catch(err => {
+    getLog().error(`Restoring suggestions failed: ${err instanceof Error ? err.message : String(err)}`);
+  });
 
   context.subscriptions.push(
     treeView,
-    onConfigChange(() => showInfo('Configuration updated')),
+    getLog(),
+    diagnostics,
+    decorations,
+    budgetStatus,
+    store,
+    resultCache,
+    workspaceRules,
+    baseline,
+    baseline.onDidChange(() => { void applyBaseline(); }),
+    vscode.workspace.onDidChangeWorkspaceFolders(() => { clearRepoRootCache(); tree.refresh(); }),
+    budget.onDidChange(() => budgetStatus.refresh()),
+    onDidChangeApiKey(() => { void refreshProviderStatus(); }),
+    store.onDidChange(() => { diagnostics.refresh(); refreshInline(); }),
+    onConfigChange(() => { diagnostics.refresh(); refreshInline(); void refreshProviderStatus(); showInfo('Configuration updated'); }),
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('whycomment.minConfidence') || e.affectsConfiguration('whycomment.enabledCategories')) applySuggestionFilter();
+    }),
+    vscode.window.onDidChangeVisibleTextEditors(() => decorations.refresh()),
+    vscode.languages.registerCodeLensProvider({ scheme: 'file' }, codeLenses),
+    vscode.languages.registerCodeActionsProvider({ scheme: 'file' },
+      new SuggestionCodeActionProvider(activeForFile),
+      { providedCodeActionKinds: SuggestionCodeActionProvider.providedCodeActionKinds }),
     vscode.workspace.onDidChangeTextDocument(onDocChanged),
     vscode.workspace.onDidSaveTextDocument(doc => scheduleAnalyze(doc.uri)),
     vscode.commands.registerCommand('whycomment.analyzeSelection', analyzeSelection),
+    vscode.commands.registerCommand('whycomment.analyzeBranch', analyzeBranch),
+    vscode.commands.registerCommand('whycomment.analyzeChangedFiles', analyzeChangedFiles),
     // Register clear-all to fix view title button error
     vscode.commands.registerCommand('whycomment.clearAll', clearAllSuggestions),
     vscode.commands.registerCommand('whycomment.applySuggestion', applySuggestion),
+    vscode.commands.registerCommand('whycomment.addToCommitMessage', addToCommitMessage),
     vscode.commands.registerCommand('whycomment.ignoreSuggestion', ignoreSuggestion),
     vscode.commands.registerCommand('whycomment.suggestComments', suggestComments),
     vscode.commands.registerCommand('whycomment.toggleAutoAnalyze', toggleAutoAnalyze),
-    vscode.commands.registerCommand('whycomment.chooseLanguage', chooseLanguage)
+    vscode.commands.registerCommand('whycomment.chooseLanguage', chooseLanguage),
+    vscode.commands.registerCommand('whycomment.chooseDiffScope', chooseDiffScope),
+    vscode.commands.registerCommand('whycomment.nextSuggestion', () => navigateSuggestions(1)),
+    vscode.commands.registerCommand('whycomment.previousSuggestion', () => navigateSuggestions(-1)),
+    vscode.commands.registerCommand('whycomment.showUsage', showUsage),
+    vscode.commands.registerCommand('whycomment.clearCache', clearResultCache),
+    vscode.commands.registerCommand('whycomment.exportReport', exportReport),
+    vscode.commands.registerCommand('whycomment.addToBaseline', addToBaseline),
+    vscode.commands.registerCommand('whycomment.removeFromBaseline', removeFromBaseline),
+    vscode.commands.registerCommand('whycomment.pruneBaseline', pruneBaseline),
+    vscode.commands.registerCommand('whycomment.setApiKey', promptSetApiKey),
+    vscode.commands.registerCommand('whycomment.clearApiKey', promptClearApiKey)
   );
 }
 
 export function deactivate() {}
 
+// Bring back suggestions from the previous session, re-anchored to the current file contents
+async function restoreSuggestions() {
+  const saved = store.loadPersisted();
+  for (const [key, items] of saved) {
+    const uri = vscode.Uri.parse(key);
+    const resolved = await resolveSuggestionLocations(uri, items, { dropUnresolved: true });
+    if (resolved.length) store.setForFile(uri, resolved); else store.clearForFile(uri);
+  }
+  // Baseline entries committed since the last session also apply to restored items
+  await applyBaseline();
+  applySuggestionFilter();
+}
+
 function collectAllSuggestions(): Suggestion[] {
   return store.all().filter(s => !s.applied && !s.ignored);
 }
 
 function scheduleAnalyze(uri: vscode.Uri) {
-  const cfg = getConfig();
+  const cfg = getSettings();
   if (!cfg.autoAnalyze) return;
   // Skip non-workspace files and VS Code config files (settings/tasks/launch)
   if (!isUnderWorkspace(uri)) return;
@@ -77,7 +185,7 @@ async function analyzeSelection() {
     void vscode.window.showInformationMessage('WhyComment: No selection.');
     return;
   }
-  const cfg = getConfig();
+  const cfg = await getConfig();
   const startLine = selection.start.line;
   const endLine = selection.end.line;
   const endChar = selection.end.character;
@@ -86,35 +194,44 @@ async function analyzeSelection() {
   const len = lastLine - startLine + 1;
   // Build a minimal unified diff containing only added lines for the selection
   const lines: string[] = [];
-  lines.push(`@@ -${startLine + 1},${len} +${startLine + 1},${len} @@`);
+  lines.push(`@@ -${startLine},0 +${startLine + 1},${len} @@`);
   for (let i = startLine; i <= lastLine; i++) {
     lines.push('+' + doc.lineAt(i).text);
   }
-  const diff = lines.join('\n');
+  // Lines covered by whycomment-* directives are never sent
+  const suppressions = suppressionsFor(doc);
+  if (suppressions.file) {
+    void vscode.window.showInformationMessage('WhyComment: This file is excluded by whycomment-disable-file.');
+    return;
+  }
+  const diff = maskSuppressedLines(lines.join('\n'), suppressions.lines);
 
   try {
-    const llmKey = cfg.apiKey?.trim();
+    const llm = resolveProvider(cfg);
+    const unavailable = providerUnavailableReason(cfg, llm);
     let suggestions: Suggestion[] = [];
-    if (llmKey) {
-      const quotaOk = await withinDailyLimit(0);
-      if (!quotaOk) {
-        void vscode.window.showInformationMessage('WhyComment: Daily limit reached.');
-        return;
-      }
-      const model = cfg.apiProvider === 'openai' ? cfg.openaiModel : cfg.claudeModel;
-      suggestions = await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: 'WhyComment: Analyzing selection…' }, async () => {
-        return analyzeWithLLM(doc.uri, diff, { apiKey: llmKey, provider: cfg.apiProvider, language: cfg.outputLanguage, model });
+    if (llm && !unavailable) {
+      // A spent budget surfaces as BudgetExceededError unless the result is cached
+      suggestions = await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: 'WhyComment: Analyzing selection…', cancellable: true }, async (_progress, token) => {
+        const { signal } = abortControllerFor(token);
+        const rules = await workspaceRules.forUri(doc.uri);
+        return analyzeWithLLM(doc.uri, diff, { llm: gated(llm), language: cfg.outputLanguage, signal, maxParallel: cfg.maxConcurrentAnalyses, cache: resultCache, rules });
       });
       // Re-anchor suggestions to the current document content to avoid line drift
       suggestions = await resolveSuggestionLocations(doc.uri, suggestions);
-      await incrementDailyCount();
+      suggestions = baseline.filter(doc.uri, documentLines(doc), suggestions);
+      suggestions = suggestions.filter(s => !suppressions.lines.has(s.line));
+      const filter = suggestionFilter();
+      suggestions = suggestions.filter(s => passesFilter(s, filter));
     } else {
-      void vscode.window.showInformationMessage('WhyComment: LLM API key is not set.');
+      showProviderUnavailable(unavailable, llm);
       return;
     }
 
     // Keep only suggestions that fall within the selected range
     const filtered = suggestions.filter(s => s.line >= startLine && s.line <= lastLine);
+    // Merge into the restored list, not into one restore is about to replace
+    await restored;
     if (!filtered.length) {
       showInfo('No suggestions for selection');
       return;
@@ -131,101 +248,313 @@ async function analyzeSelection() {
     const first = filtered[0];
     revealPosition(first.uri, new vscode.Position(first.line, 0));
   } catch (err) {
+    if (isCancellation(err)) return;
+    if (err instanceof BudgetExceededError) { void vscode.window.showInformationMessage(`WhyComment: ${err.message}`); return; }
     const msg = err instanceof Error ? err.message : String(err);
     void vscode.window.showWarningMessage(`WhyComment selection analysis failed: ${msg}`);
   }
 }
 
-async function analyzeUri(uri: vscode.Uri, opts?: { manual?: boolean }) {
+interface AnalyzeOptions {
+  manual?: boolean;
+  base?: string; // diff against this commit instead of HEAD (branch analysis)
+  baseLabel?: string; // ref name shown in the UI for `base`
+  signal?: AbortSignal; // cancels this run (e.g. batch Cancel button)
+}
+
+async function analyzeUri(uri: vscode.Uri, opts?: AnalyzeOptions) {
   try {
-    const cfg = getConfig();
-    const relPath = vscode.workspace.asRelativePath(uri);
-    // Skip excluded files only for auto-triggered analysis; allow manual runs
-    if (!opts?.manual && anyGlobMatch(cfg.excludePatterns, relPath)) {
-      showInfo(`Excluded: ${relPath}`);
+    const count = await analyzeFile(uri, opts);
+    if (opts?.manual && count === 0) {
+      void vscode.window.showInformationMessage('WhyComment: No suggestions. Nice and clear!');
+    }
+  } catch (err) {
+    if (isCancellation(err)) return;
+    // Auto-analysis pauses quietly once the budget is spent; the status bar shows why
+    if (err instanceof BudgetExceededError) {
+      if (opts?.manual) void vscode.window.showInformationMessage(`WhyComment: ${err.message}`);
       return;
     }
+    const msg = err instanceof Error ? err.message : String(err);
+    void vscode.window.showWarningMessage(`WhyComment error: ${msg}`);
+  }
+}
 
-    // Compute incremental diff vs last analyzed snapshot when available; otherwise use git diff vs HEAD
-    const doc = await vscode.workspace.openTextDocument(uri);
-    const currentText = doc.getText();
-    const prevText = previousTextByFile.get(uri.toString());
-    let diff: string | undefined;
-    if (prevText !== undefined) {
-      try {
-        const { createTwoFilesPatch } = require('diff') as typeof import('diff');
-        diff = createTwoFilesPatch('prev', 'cur', prevText, currentText, '', '', { context: cfg.contextLines });
-      } catch {
-        diff = await getDiffForFile(uri, cfg.contextLines);
+// Single-flight wrapper: supersedes any running analysis of the same file
+async function analyzeFile(uri: vscode.Uri, opts?: AnalyzeOptions): Promise<number> {
+  const key = uri.toString();
+  inFlight.get(key)?.abort();
+  const controller = new AbortController();
+  inFlight.set(key, controller);
+  const onOuterAbort = () => controller.abort();
+  if (opts?.signal?.aborted) controller.abort();
+  opts?.signal?.addEventListener('abort', onOuterAbort, { once: true });
+  try {
+    await restored;
+    return await runFileAnalysis(uri, controller.signal, opts);
+  } finally {
+    opts?.signal?.removeEventListener('abort', onOuterAbort);
+    if (inFlight.get(key) === controller) inFlight.delete(key);
+  }
+}
+
+// Analyze one file and merge the results into the store; returns the number of suggestions found. Throws on failure or cancellation.
+async function runFileAnalysis(uri: vscode.Uri, signal: AbortSignal, opts?: AnalyzeOptions): Promise<number> {
+  const cfg = await getConfig();
+  const relPath = vscode.workspace.asRelativePath(uri);
+  // Skip excluded files only for auto-triggered analysis; allow manual runs
+  if (!opts?.manual && isExcluded(cfg.excludePatterns, uri)) {
+    showInfo(`Excluded: ${relPath}`);
+    return 0;
+  }
+
+  // Compute incremental diff vs last analyzed snapshot when available; otherwise use git diff vs HEAD
+  const doc = await vscode.workspace.openTextDocument(uri);
+  const currentText = doc.getText();
+  const prevText = previousTextByFile.get(uri.toString());
+  // Branch analysis always compares the working tree with its base
+  const scope: DiffScope = opts?.base ? 'all' : cfg.diffScope;
+  let diff: string | undefined;
+  if (opts?.base) {
+    diff = await getDiffForFile(uri.fsPath, cfg.contextLines, { base: opts.base });
+  } else if (scope !== 'all') {
+    // Saves change the working tree, not the index, so incremental diffs do not apply
+    diff = await getDiffForFile(uri.fsPath, cfg.contextLines, { scope });
+  } else if (prevText !== undefined) {
+    try {
+      const { createTwoFilesPatch } = require('diff') as typeof import('diff');
+      diff = createTwoFilesPatch('prev', 'cur', prevText, currentText, '', '', { context: cfg.contextLines });
+    } catch {
+      diff = await getDiffForFile(uri.fsPath, cfg.contextLines);
+    }
+  } else {
+    diff = await getDiffForFile(uri.fsPath, cfg.contextLines);
+  }
+  if (!diff || !diff.trim()) {
+    showInfo(opts?.baseLabel ? `No changes vs ${opts.baseLabel}` : scope === 'all' ? 'No changes vs HEAD' : `No ${scope} changes`);
+    store.clearForFile(uri);
+    tree.refresh();
+    return 0;
+  }
+
+  // optional: previously limited large diffs; no limit now
+
+  const suppressions = suppressionsFor(doc);
+  if (suppressions.file) {
+    showInfo(`Suppressed by directive: ${relPath}`);
+    store.clearForFile(uri);
+    tree.refresh();
+    return 0;
+  }
+  // Keep suppressed regions out of the prompt; staged line numbers follow the index, so its directives decide there
+  const staged = scope === 'staged' ? await getStagedContent(uri.fsPath) : undefined;
+  const masking = staged !== undefined ? suppressionsIn(staged.split(/\r?\n/), doc.languageId) : suppressions;
+  if (masking.file) {
+    showInfo(`Suppressed by directive: ${relPath}`);
+    store.clearForFile(uri);
+    tree.refresh();
+    return 0;
+  }
+  diff = maskSuppressedLines(diff, masking.lines);
+
+  let suggestions: Suggestion[] = [];
+  // LLM only: if configured; a spent budget surfaces as BudgetExceededError unless the result is cached
+  const llm = resolveProvider(cfg);
+  if (llm?.ready) {
+    // Call LLM without skipLines; UI handles dedupe
+    suggestions = await vscode.window.withProgress({ location: vscode.ProgressLocation.Window, title: 'WhyComment: Generating suggestions…' }, async () => {
+      const rules = await workspaceRules.forUri(uri);
+      return analyzeWithLLM(uri, diff, { llm: gated(llm), language: cfg.outputLanguage, signal, maxParallel: cfg.maxConcurrentAnalyses, cache: resultCache, rules });
+    });
+  }
+  // Resolve only new suggestions against current document using anchors when available
+  suggestions = await resolveSuggestionLocations(uri, suggestions);
+  // Drop suggestions that are already explained by nearby comments
+  suggestions = await filterAlreadyExplained(uri, suggestions);
+  // Drop questions the team has already resolved, and lines suppressed in source
+  suggestions = baseline.filter(uri, documentLines(doc), suggestions);
+  suggestions = suggestions.filter(s => !suppressions.lines.has(s.line));
+  // Drop categories the repo turned off and questions below the confidence threshold
+  const filter = suggestionFilter();
+  suggestions = suggestions.filter(s => passesFilter(s, filter));
+  // Keep suggestions only on added lines of this diff; staged line numbers follow the index, so match staged text instead
+  suggestions = filterToAddedLines(diff, suggestions, scope === 'staged' ? documentLines(doc) : undefined);
+  // A newer run for this file may have started while we were waiting
+  if (signal.aborted) throw new vscode.CancellationError();
+
+  if (!opts?.base) {
+    for (const s of suggestions) s.scope = scope;
+  }
+
+  if (opts?.baseLabel) {
+    for (const s of suggestions) s.baseRef = opts.baseLabel;
+  }
+
+  // Append new suggestions to existing list (do not clear) and avoid duplicate lines; a removal question may share a line with an added-code one
+  const existing = store.getForFile(uri);
+  const existingActive = existing.filter(x => !x.applied && !x.ignored);
+  const lineKey = (x: Suggestion) => `${x.removal ? '-' : ''}${x.line}`;
+  const existingLines = new Set(existingActive.map(lineKey));
+  const filteredIncoming = suggestions.filter(s => !existingLines.has(lineKey(s)));
+  const merged = appendAndDedupe(existing, filteredIncoming);
+  store.setForFile(uri, merged);
+  // Update baseline snapshot for incremental diffs
+  previousTextByFile.set(uri.toString(), currentText);
+  tree.refresh();
+  return suggestions.length;
+}
+
+async function analyzeChangedFiles() {
+  const cfg = await getConfig();
+  const llm = resolveProvider(cfg);
+  const unavailable = providerUnavailableReason(cfg, llm);
+  if (unavailable) { showProviderUnavailable(unavailable, llm); return; }
+  try {
+    const repos = await workspaceRepositories();
+    if (!repos.length) {
+      void vscode.window.showInformationMessage('WhyComment: Git repository not found.');
+      return;
+    }
+    const files = new Set<string>();
+    for (const repoRoot of repos) {
+      for (const e of await getChangedFiles(repoRoot)) {
+        if (e.status !== 'D') files.add(path.join(repoRoot, e.path));
       }
-    } else {
-      diff = await getDiffForFile(uri, cfg.contextLines);
     }
-    if (!diff || !diff.trim()) {
-      showInfo('No changes vs HEAD');
-      store.clearForFile(uri);
-      tree.refresh();
+    // A repository can start above the workspace folder; only files inside a folder are analyzed
+    const uris = Array.from(files, f => vscode.Uri.file(f))
+      .filter(u => isUnderWorkspace(u) && !isExcluded(cfg.excludePatterns, u));
+    if (!uris.length) {
+      void vscode.window.showInformationMessage('WhyComment: No changed files.');
       return;
     }
+    await analyzeBatch('WhyComment: Analyzing changed files', uris);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    void vscode.window.showWarningMessage(`WhyComment workspace analysis failed: ${msg}`);
+  }
+}
 
-    // optional: previously limited large diffs; no limit now
-
-    const cacheKey = require('crypto').createHash('sha1').update(diff).digest('hex');
-    let suggestions = cache.get(cacheKey);
-    if (!suggestions) {
-      suggestions = [];
-      // LLM only: if configured and within daily limit
-      const llmKey = cfg.apiKey?.trim();
-      if (llmKey) {
-        const quotaOk = await withinDailyLimit(0);
-        if (quotaOk) {
-          const model = cfg.apiProvider === 'openai' ? cfg.openaiModel : cfg.claudeModel;
-          // Call LLM without skipLines; UI handles dedupe
-          const llmItems = await vscode.window.withProgress({ location: vscode.ProgressLocation.Window, title: 'WhyComment: Generating suggestions…' }, async () => {
-            return analyzeWithLLM(uri, diff, { apiKey: llmKey, provider: cfg.apiProvider, language: cfg.outputLanguage, model });
-          });
-          suggestions = llmItems;
-          await incrementDailyCount();
-        } else {
-          
-        }
+// Analyze many files under one cancellable notification, then report a summary
+async function analyzeBatch(title: string, uris: vscode.Uri[], opts?: AnalyzeOptions) {
+  const cfg = getSettings();
+  let done = 0;
+  let found = 0;
+  const failures: string[] = [];
+  let cancelled = false;
+  let budgetStop: string | undefined;
+  await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title, cancellable: true }, async (progress, token) => {
+    const { signal } = abortControllerFor(token);
+    await runWithConcurrency(uris, cfg.maxConcurrentAnalyses, async uri => {
+      const rel = vscode.workspace.asRelativePath(uri);
+      try {
+        // Exclusions were applied when building the list
+        found += await analyzeFile(uri, { ...opts, manual: true, signal });
+      } catch (err) {
+        // Cancelled or superseded by a newer run of the same file: not a failure
+        if (isCancellation(err)) return;
+        // Out of budget: stop picking up files; the rest are reported as skipped
+        if (err instanceof BudgetExceededError) { budgetStop = err.message; return; }
+        const msg = err instanceof Error ? err.message : String(err);
+        getLog().error(`${rel}: analysis failed: ${msg}`);
+        failures.push(rel);
       }
-      // Resolve only new suggestions against current document using anchors when available
-      suggestions = await resolveSuggestionLocations(uri, suggestions);
-      // Drop suggestions that are already explained by nearby comments
-      suggestions = await filterAlreadyExplained(uri, suggestions);
-      // Keep suggestions only on added lines of this diff
-      suggestions = filterToAddedLines(diff, suggestions);
-      cache.set(cacheKey, suggestions);
-    }
+      done++;
+      progress.report({ message: `${done}/${uris.length} ${rel}`, increment: 100 / uris.length });
+    }, () => token.isCancellationRequested || budgetStop !== undefined);
+    cancelled = token.isCancellationRequested;
+  });
+  const parts = [`${done - failures.length} file(s) analyzed`, `${found} suggestion(s) found`];
+  if (failures.length) parts.push(`${failures.length} failed (${failures.slice(0, 3).join(', ')}${failures.length > 3 ? ', …' : ''}; see the WhyComment output)`);
+  if (cancelled) parts.push(`cancelled after ${done}/${uris.length}`);
+  else if (budgetStop) parts.push(`stopped after ${done}/${uris.length}: ${budgetStop}`);
+  void vscode.window.showInformationMessage(`WhyComment: ${parts.join(', ')}.`);
+}
 
-    // Append new suggestions to existing list (do not clear) and avoid duplicate lines
-    const existing = store.getForFile(uri);
-    const existingActive = existing.filter(x => !x.applied && !x.ignored);
-    const existingLines = new Set(existingActive.map(x => x.line));
-    const filteredIncoming = suggestions.filter(s => !existingLines.has(s.line));
-    const merged = appendAndDedupe(existing, filteredIncoming);
-    store.setForFile(uri, merged);
-    // Update baseline snapshot for incremental diffs
-    previousTextByFile.set(uri.toString(), currentText);
-    tree.refresh();
-    if (opts?.manual && suggestions.length === 0) {
-      void vscode.window.showInformationMessage('WhyComment: No suggestions. Nice and clear!');
+async function analyzeBranch() {
+  const cfg = await getConfig();
+  const llm = resolveProvider(cfg);
+  const unavailable = providerUnavailableReason(cfg, llm);
+  if (unavailable) { showProviderUnavailable(unavailable, llm); return; }
+  const active = vscode.window.activeTextEditor?.document.uri;
+  const repoRoot = active?.scheme === 'file' && isUnderWorkspace(active) ? await getRepoRoot(active.fsPath) : await pickRepository();
+  if (!repoRoot) return;
+
+  const baseRef = await pickBaseRef(repoRoot);
+  if (!baseRef) return;
+  let mergeBase: string;
+  try {
+    mergeBase = await getMergeBase(repoRoot, baseRef);
+  } catch {
+    void vscode.window.showWarningMessage(`WhyComment: No common ancestor between ${baseRef} and HEAD.`);
+    return;
+  }
+
+  try {
+    const entries = await getNameStatus(repoRoot, mergeBase);
+    const uris = entries
+      .filter(e => e.status !== 'D')
+      .map(e => vscode.Uri.file(path.join(repoRoot, e.path)))
+      .filter(u => isUnderWorkspace(u) && !isExcluded(cfg.excludePatterns, u));
+    if (!uris.length) {
+      void vscode.window.showInformationMessage(`WhyComment: No changed files vs ${baseRef}.`);
+      return;
     }
+    await analyzeBatch(`WhyComment: Analyzing branch vs ${baseRef}`, uris, { base: mergeBase, baseLabel: baseRef });
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
-    void vscode.window.showWarningMessage(`WhyComment error: ${msg}`);
+    void vscode.window.showWarningMessage(`WhyComment branch analysis failed: ${msg}`);
   }
 }
 
-function dedupe(items: Suggestion[]): Suggestion[] {
-  const seen = new Set<string>();
-  const out: Suggestion[] = [];
-  for (const s of items) {
-    const k = `${s.uri.toString()}:${s.line}:${s.message}`;
-    if (!seen.has(k)) { seen.add(k); out.push(s); }
+// Repository for a branch analysis without an active file; asks when the workspace has several
+async function pickRepository(): Promise<string | undefined> {
+  const repos = await workspaceRepositories().catch(() => []);
+  if (!repos.length) {
+    void vscode.window.showInformationMessage('WhyComment: Git repository not found.');
+    return undefined;
   }
-  return out;
+  if (repos.length === 1) return repos[0];
+  const picked = await vscode.window.showQuickPick(
+    repos.map(r => ({ label: `$(repo) ${path.basename(r)}`, description: vscode.workspace.asRelativePath(r), root: r })),
+    { placeHolder: 'Select the repository to analyze' }
+  );
+  return picked?.root;
+}
+
+// Every repository in every workspace folder, without duplicates
+async function workspaceRepositories(): Promise<string[]> {
+  const roots = new Set<string>();
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    for (const root of await listRepositories(folder.uri.fsPath)) roots.add(root);
+  }
+  return Array.from(roots);
+}
+
+// Exclude patterns are relative to the file's workspace folder, also in multi-root workspaces
+function isExcluded(patterns: string[], uri: vscode.Uri): boolean {
+  return anyGlobMatch(patterns, vscode.workspace.asRelativePath(uri, false));
+}
+
+async function pickBaseRef(repoRoot: string): Promise<string | undefined> {
+  type RefItem = vscode.QuickPickItem & { ref?: string; custom?: boolean };
+  const items: RefItem[] = [];
+  const fallback = await getDefaultBaseRef(repoRoot);
+  if (fallback) items.push({ label: `$(git-merge) Merge-base with ${fallback}`, ref: fallback });
+  items.push({ label: '$(edit) Enter a ref or commit…', custom: true });
+  const refs = await listRefs(repoRoot).catch(() => []);
+  if (refs.length) items.push({ label: 'Refs', kind: vscode.QuickPickItemKind.Separator });
+  for (const r of refs) {
+    const icon = r.kind === 'tag' ? 'tag' : r.kind === 'remote' ? 'cloud' : 'git-branch';
+    items.push({ label: `$(${icon}) ${r.name}`, ref: r.name });
+  }
+  const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Select the base to compare the current branch against' });
+  if (!picked) return undefined;
+  if (picked.custom) {
+    const input = await vscode.window.showInputBox({ prompt: 'Branch, tag or commit to compare against', value: fallback ?? '' });
+    return input?.trim() || undefined;
+  }
+  return picked.ref;
 }
 
 function appendAndDedupe(existing: Suggestion[], incoming: Suggestion[]): Suggestion[] {
@@ -237,7 +566,12 @@ function appendAndDedupe(existing: Suggestion[], incoming: Suggestion[]): Sugges
   return out;
 }
 
-async function applySuggestion(item?: any) {
+// Options for scripted callers such as tests; the UI passes none
+interface ApplyOptions {
+  comment?: string; // insert this text instead of prompting for it
+}
+
+async function applySuggestion(item?: any, opts?: ApplyOptions) {
   // When invoked from context menu, item.suggestion is available.
   let s: Suggestion | undefined = item?.suggestion as Suggestion | undefined;
   if (!s) {
@@ -248,12 +582,52 @@ async function applySuggestion(item?: any) {
     s = suggestions.find(x => x.line === editor.selection.active.line) ?? suggestions[0];
   }
   if (!s) return;
-  const text = await chooseBestComment(s);
+  // Why code was removed can be answered in place or where the removal is recorded
+  if (s.removal) {
+    const picked = await vscode.window.showQuickPick([
+      { label: '$(comment) Comment at the deletion site', toCommit: false },
+      { label: '$(git-commit) Commit message', toCommit: true }
+    ], { placeHolder: `Where should the reason for removing \`${s.removal.text.trim()}\` go?` });
+    if (!picked) return;
+    if (picked.toCommit) { await addToCommitMessage({ suggestion: s }); return; }
+  }
+  const text = opts?.comment?.trim() || await chooseBestComment(s);
+  if (!text) return;
+  if (!await insertCommentAbove(s, text)) return;
+  s.applied = true; store.update(s); tree.refresh();
+}
+
+// Record why code was removed in the commit message of the file's repository (Source Control input box)
+async function addToCommitMessage(item?: any) {
+  const s: Suggestion | undefined = item?.suggestion as Suggestion | undefined;
+  if (!s?.removal) return;
+  const text = await chooseBestComment(s, 'Reason for the removal, added to the commit message');
   if (!text) return;
-  await insertCommentAbove(s, text);
+  const line = `Removed \`${s.removal.text.trim()}\` from ${vscode.workspace.asRelativePath(s.uri)}: ${text}`;
+  const repo = await gitExtensionRepository(s.uri);
+  if (repo) {
+    const current: string = repo.inputBox.value ?? '';
+    repo.inputBox.value = current.trim() ? `${current.trimEnd()}\n\n${line}` : line;
+    void vscode.commands.executeCommand('workbench.view.scm');
+  } else {
+    await vscode.env.clipboard.writeText(line);
+    void vscode.window.showInformationMessage('WhyComment: Git is not available; the commit message line was copied to the clipboard.');
+  }
   s.applied = true; store.update(s); tree.refresh();
 }
 
+// Repository of the built-in Git extension that contains the file, if that extension is enabled
+async function gitExtensionRepository(uri: vscode.Uri): Promise<any | undefined> {
+  const ext = vscode.extensions.getExtension('vscode.git');
+  if (!ext) return undefined;
+  try {
+    const git = (ext.isActive ? ext.exports : await ext.activate())?.getAPI(1);
+    return git?.getRepository(uri) ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 async function suggestComments(item?: any) {
   const sFromItem: Suggestion | undefined = item?.suggestion as Suggestion | undefined;
   let s = sFromItem;
@@ -267,9 +641,12 @@ async function suggestComments(item?: any) {
     if (!s) { void vscode.window.showInformationMessage('WhyComment: No suggestion found for current line'); return; }
   }
 
-  const cfg = getConfig();
-  const apiKey = cfg.apiKey?.trim();
-  if (!apiKey) { void vscode.window.showInformationMessage('WhyComment: LLM API key is not set'); return; }
+  const cfg = await getConfig();
+  const llm = resolveProvider(cfg);
+  const unavailable = providerUnavailableReason(cfg, llm);
+  if (!llm || unavailable) { showProviderUnavailable(unavailable, llm); return; }
+  const exhausted = budget.exhaustedReason();
+  if (exhausted) { void vscode.window.showInformationMessage(`WhyComment: ${exhausted}`); return; }
   try {
     const doc = await vscode.workspace.openTextDocument(s.uri);
     const target = Math.min(Math.max(0, s.line), doc.lineCount - 1);
@@ -281,17 +658,25 @@ async function suggestComments(item?: any) {
       snippetLines.push(`${prefix} ${doc.lineAt(i).text}`);
     }
     const snippet = snippetLines.join('\n');
+    const rules = await workspaceRules.forUri(s.uri);
 
-    const model = cfg.apiProvider === 'openai' ? cfg.openaiModel : cfg.claudeModel;
     const { suggestCommentVariantsForLine } = await import('./llm');
-    const variants = await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: 'WhyComment: Proposing comment variants…' }, async () => {
-      return suggestCommentVariantsForLine(snippet, { apiKey, provider: cfg.apiProvider, language: cfg.outputLanguage, model });
+    let cancelled = false;
+    const variants = await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: 'WhyComment: Proposing comment variants…', cancellable: true }, async (_progress, token) => {
+      const { signal } = abortControllerFor(token);
+      const result = await suggestCommentVariantsForLine(snippet, { llm: gated(llm), language: cfg.outputLanguage, signal, rules }).catch(err => {
+        if (isCancellation(err)) return [];
+        throw err;
+      });
+      cancelled = token.isCancellationRequested;
+      return result;
     });
+    if (cancelled) return;
     if (!variants.length) { void vscode.window.showInformationMessage('WhyComment: Could not generate comment variants'); return; }
 
     const picked = await vscode.window.showQuickPick(variants.map(v => ({ label: v })), { placeHolder: 'Select a comment to insert' });
     if (!picked) return;
-    await insertCommentAbove(s, picked.label);
+    if (!await insertCommentAbove(s, picked.label)) return;
     s.applied = true; store.update(s); tree.refresh();
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
@@ -315,13 +700,103 @@ async function ignoreSuggestion(item?: any) {
   s.ignored = true; store.update(s); tree.refresh();
 }
 
-async function insertCommentAbove(s: Suggestion, commentText: string) {
+async function addToBaseline(item?: any) {
+  let targets: Suggestion[];
+  const fromItem: Suggestion | undefined = item?.suggestion as Suggestion | undefined;
+  if (fromItem) {
+    targets = [fromItem];
+  } else {
+    const uri = vscode.window.activeTextEditor?.document.uri;
+    if (!uri) return;
+    const active = store.getForFile(uri).filter(x => !x.applied && !x.ignored);
+    const line0 = vscode.window.activeTextEditor!.selection.active.line;
+    const atCursor = active.filter(x => x.line === line0);
+    if (atCursor.length) {
+      targets = atCursor;
+    } else {
+      if (!active.length) { void vscode.window.showInformationMessage('WhyComment: No suggestions in this file.'); return; }
+      const answer = await vscode.window.showWarningMessage(`Add all ${active.length} suggestion(s) in this file to the team baseline?`, { modal: true }, 'Add');
+      if (answer !== 'Add') return;
+      targets = active;
+    }
+  }
+  try {
+    const doc = await vscode.workspace.openTextDocument(targets[0].uri);
+    const added = await baseline.add(doc.uri, documentLines(doc), targets);
+    showInfo(`${added} suppression(s) added to the baseline`);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    void vscode.window.showWarningMessage(`WhyComment: Could not update the baseline: ${msg}`);
+  }
+}
+
+async function removeFromBaseline(item?: any) {
+  const b: BaselineItem | undefined = item?.baselineItem;
+  if (!b) return;
+  await baseline.remove(b.folder, [b.entry.fingerprint]);
+  showInfo('Suppression removed from the baseline');
+}
+
+async function pruneBaseline() {
+  try {
+    const removed = await baseline.prune();
+    void vscode.window.showInformationMessage(removed ? `WhyComment: Removed ${removed} stale baseline entr${removed === 1 ? 'y' : 'ies'}.` : 'WhyComment: Baseline has no stale entries.');
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    void vscode.window.showWarningMessage(`WhyComment: Could not prune the baseline: ${msg}`);
+  }
+}
+
+// Re-filter stored suggestions after the baseline changed (own edit or a teammate's, via pull)
+async function applyBaseline() {
+  const byFile = new Map<string, Suggestion[]>();
+  for (const s of store.all()) {
+    const k = s.uri.toString();
+    byFile.set(k, [...(byFile.get(k) ?? []), s]);
+  }
+  for (const [key, items] of byFile) {
+    const uri = vscode.Uri.parse(key);
+    try {
+      const doc = await vscode.workspace.openTextDocument(uri);
+      const kept = baseline.filter(uri, documentLines(doc), items);
+      if (kept.length !== items.length) store.setForFile(uri, kept);
+    } catch {
+      // File is gone; restoreSuggestions handles stale entries
+    }
+  }
+  tree.refresh();
+}
+
+function suggestionFilter(): SuggestionFilter {
+  const { minConfidence, enabledCategories } = getSettings();
+  return { minConfidence, categories: enabledCategories };
+}
+
+// Hide open questions that a stricter threshold or a disabled category no longer admits
+function applySuggestionFilter() {
+  const filter = suggestionFilter();
+  const byFile = new Map<string, Suggestion[]>();
+  for (const s of store.all()) {
+    const k = s.uri.toString();
+    byFile.set(k, [...(byFile.get(k) ?? []), s]);
+  }
+  for (const [key, items] of byFile) {
+    const kept = items.filter(s => s.applied || s.ignored || passesFilter(s, filter));
+    if (kept.length !== items.length) store.setForFile(vscode.Uri.parse(key), kept);
+  }
+  tree.refresh();
+}
+
+async function insertCommentAbove(s: Suggestion, commentText: string): Promise<boolean> {
   const doc = await vscode.workspace.openTextDocument(s.uri);
-  const editor = await vscode.window.showTextDocument(doc);
-  const token = getLineCommentToken(doc.languageId);
-  const raw = commentText.trim();
-  const commentLine = raw.startsWith(token) ? raw : `${token} ${raw}`;
   const targetLine = Math.min(Math.max(0, s.line), doc.lineCount - 1);
+  const syntax = getCommentSyntaxAt(doc.languageId, documentLines(doc), targetLine);
+  if (!syntax) {
+    void vscode.window.showInformationMessage(`WhyComment: Cannot insert comments into ${doc.languageId} files.`);
+    return false;
+  }
+  const editor = await vscode.window.showTextDocument(doc);
+  const commentLine = formatComment(syntax, commentText);
   const targetText = doc.lineAt(targetLine).text;
   const indent = (targetText.match(/^\s*/)?.[0]) ?? '';
   const lineWithIndent = indent + commentLine + '\n';
@@ -329,17 +804,57 @@ async function insertCommentAbove(s: Suggestion, commentText: string) {
     edit.insert(new vscode.Position(targetLine, 0), lineWithIndent);
   });
   revealPosition(s.uri, new vscode.Position(targetLine, indent.length));
+  return true;
+}
+
+// Provider picker with the configured provider first
+async function pickProvider(placeHolder: string): Promise<string | undefined> {
+  const current = getSettings().apiProvider;
+  const items = await Promise.all(listProviders().map(async p => ({
+    label: p.label,
+    description: [p.id === current ? 'current' : '', await getApiKey(p.id) ? 'key stored' : ''].filter(Boolean).join(' · '),
+    id: p.id
+  })));
+  items.sort((a, b) => Number(b.id === current) - Number(a.id === current));
+  return (await vscode.window.showQuickPick(items, { placeHolder }))?.id;
+}
+
+async function promptSetApiKey() {
+  const providerId = await pickProvider('Select the provider to store an API key for');
+  if (!providerId) return;
+  const label = getProvider(providerId)?.label ?? providerId;
+  const key = await vscode.window.showInputBox({ prompt: `${label} API key`, password: true, ignoreFocusOut: true });
+  if (!key?.trim()) return;
+  await setApiKey(providerId, key.trim());
+  showInfo(`API key for ${label} saved`);
+}
+
+// A missing key (none stored, none in the environment) offers to store one
+function showProviderUnavailable(reason: string | undefined, llm: ResolvedProvider | undefined) {
+  if (!llm || llm.ready) {
+    void vscode.window.showInformationMessage(`WhyComment: ${reason}`);
+    return;
+  }
+  void vscode.window.showInformationMessage(`WhyComment: ${reason}`, 'Set API Key').then(choice => {
+    if (choice) void vscode.commands.executeCommand('whycomment.setApiKey');
+  });
+}
+
+async function promptClearApiKey() {
+  const providerId = await pickProvider('Select the provider whose API key to remove');
+  if (!providerId) return;
+  await deleteApiKey(providerId);
+  showInfo(`API key for ${getProvider(providerId)?.label ?? providerId} cleared`);
 }
 
 async function toggleAutoAnalyze() {
-  const cfg = getConfig();
+  const cfg = getSettings();
   const newVal = !cfg.autoAnalyze;
   await vscode.workspace.getConfiguration('whycomment').update('autoAnalyze', newVal, vscode.ConfigurationTarget.Workspace);
   showInfo(`Auto analyze ${newVal ? 'enabled' : 'disabled'}`);
 }
 
 async function chooseLanguage() {
-  const cfg = getConfig();
   const picked = await vscode.window.showQuickPick([
     { label: 'Auto', value: 'auto' },
     { label: 'English', value: 'en' },
@@ -350,6 +865,23 @@ async function chooseLanguage() {
   showInfo(`Language set to ${picked.label}`);
 }
 
+async function chooseDiffScope() {
+  const picked = await vscode.window.showQuickPick([
+    { label: 'All changes', description: 'working tree vs HEAD', value: 'all' },
+    { label: 'Staged', description: 'index vs HEAD (what the next commit contains)', value: 'staged' },
+    { label: 'Unstaged', description: 'working tree vs index', value: 'unstaged' }
+  ], { placeHolder: 'Select which changes to analyze' });
+  if (!picked) return;
+  await vscode.workspace.getConfiguration('whycomment').update('diffScope', picked.value, vscode.ConfigurationTarget.Workspace);
+  showInfo(`Diff scope set to ${picked.label}`);
+}
+
+function navigateSuggestions(direction: 1 | -1) {
+  const uri = vscode.window.activeTextEditor?.document.uri;
+  if (!uri) return;
+  revealAdjacentSuggestion(store.getForFile(uri).filter(s => !s.applied && !s.ignored), direction);
+}
+
 async function clearAllSuggestions() {
   const answer = await vscode.window.showWarningMessage('Clear all WhyComment suggestions?', { modal: true }, 'Clear');
   if (answer !== 'Clear') return;
@@ -360,124 +892,182 @@ async function clearAllSuggestions() {
 
 // chooseOpenAIModel command removed per request
 
-// Daily limit feature removed; keep no-op stubs for compatibility
-async function withinDailyLimit(_limit: number): Promise<boolean> { return true; }
-async function incrementDailyCount(): Promise<void> { /* no-op */ }
+async function clearResultCache() {
+  const count = resultCache.size;
+  await resultCache.clear();
+  showInfo(`Cache cleared (${count} entr${count === 1 ? 'y' : 'ies'})`);
+}
+
+async function showUsage() {
+  const exhausted = budget.exhaustedReason();
+  const lines = describeUsage(budget.usage(), budgetLimits());
+  const detail = [exhausted ? `Paused: ${exhausted}` : 'Within budget.', ...lines].join('\n');
+  const pick = await vscode.window.showInformationMessage('WhyComment usage', { modal: true, detail }, 'Reset Counters', 'Open Settings');
+  if (pick === 'Reset Counters') {
+    await budget.reset();
+    showInfo('Usage counters reset');
+  } else if (pick === 'Open Settings') {
+    await vscode.commands.executeCommand('workbench.action.openSettings', 'whycomment limit');
+  }
+}
+
+async function exportReport() {
+  const all = store.all();
+  if (!all.length) { showInfo('No suggestions to export'); return; }
+
+  type ScopeItem = vscode.QuickPickItem & { scope: string; filter: (s: Suggestion) => boolean };
+  const scopes: ScopeItem[] = [];
+  const active = vscode.window.activeTextEditor?.document.uri;
+  const inActive = active ? all.filter(s => s.uri.toString() === active.toString()).length : 0;
+  if (active && inActive) {
+    const rel = vscode.workspace.asRelativePath(active);
+    scopes.push({ label: '$(file) Current File', description: `${rel} · ${inActive}`, scope: `File ${rel}`, filter: s => s.uri.toString() === active.toString() });
+  }
+  scopes.push({ label: '$(root-folder) Workspace', description: `${all.length}`, scope: 'Workspace', filter: () => true });
+  for (const ref of new Set(all.map(s => s.baseRef).filter((r): r is string => !!r))) {
+    const count = all.filter(s => s.baseRef === ref).length;
+    scopes.push({ label: `$(git-branch) Branch vs ${ref}`, description: `${count}`, scope: `Branch vs ${ref}`, filter: s => s.baseRef === ref });
+  }
+  const scope = scopes.length === 1 ? scopes[0] : await vscode.window.showQuickPick(scopes, { placeHolder: 'Which suggestions to export' });
+  if (!scope) return;
+
+  const formats: (vscode.QuickPickItem & { format: ReportFormat })[] = [
+    { label: 'Markdown', description: 'for PR descriptions', format: 'markdown' },
+    { label: 'HTML', description: 'self-contained page', format: 'html' },
+    { label: 'JSON', description: 'for tools', format: 'json' }
+  ];
+  const picked = await vscode.window.showQuickPick(formats, { placeHolder: 'Report format' });
+  if (!picked) return;
+
+  const folder = (active && vscode.workspace.getWorkspaceFolder(active)) ?? vscode.workspace.workspaceFolders?.[0];
+  const fileName = `whycomment-report.${REPORT_EXTENSIONS[picked.format]}`;
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: folder ? vscode.Uri.joinPath(folder.uri, fileName) : undefined,
+    filters: { [picked.label]: [REPORT_EXTENSIONS[picked.format]] }
+  });
+  if (!target) return;
+
+  const entries = await reportEntries(all.filter(scope.filter));
+  const text = renderReport({ scope: scope.scope, generatedAt: new Date().toISOString(), entries }, picked.format);
+  try {
+    await vscode.workspace.fs.writeFile(target, Buffer.from(text, 'utf8'));
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    void vscode.window.showWarningMessage(`WhyComment: Could not write the report: ${msg}`);
+    return;
+  }
+  const open = await vscode.window.showInformationMessage(`WhyComment: Exported ${entries.length} question(s) to ${vscode.workspace.asRelativePath(target)}.`, 'Open');
+  if (open) await vscode.window.showTextDocument(target);
+}
+
+// Report rows with the flagged code taken from the anchor, else the current line text
+async function reportEntries(items: Suggestion[]): Promise<ReportEntry[]> {
+  const linesByFile = new Map<string, string[] | undefined>();
+  const out: ReportEntry[] = [];
+  for (const s of items) {
+    const key = s.uri.toString();
+    if (!linesByFile.has(key)) {
+      linesByFile.set(key, await vscode.workspace.openTextDocument(s.uri).then(documentLines, () => undefined));
+    }
+    const line = s.line + 1;
+    out.push({
+      file: vscode.workspace.asRelativePath(s.uri).replace(/\\/g, '/'),
+      line,
+      // Opens the editor at the line from a browser or another app
+      href: `${vscode.env.uriScheme}://file${s.uri.path}:${line}`,
+      // Removal questions quote the deleted code rather than the line they are anchored to
+      anchor: (s.removal?.text ?? s.anchor ?? linesByFile.get(key)?.[s.line] ?? '').trim(),
+      removed: s.removal ? true : undefined,
+      message: s.message,
+      source: s.source,
+      status: s.applied ? 'applied' : s.ignored ? 'ignored' : 'open',
+      category: s.category,
+      confidence: s.confidence,
+      baseRef: s.baseRef
+    });
+  }
+  return out;
+}
 
-async function resolveSuggestionLocations(uri: vscode.Uri, items: Suggestion[]): Promise<Suggestion[]> {
+// With dropUnresolved, items whose anchor is missing from the file (or the file itself) are discarded instead of clamped
+async function resolveSuggestionLocations(uri: vscode.Uri, items: Suggestion[], opts?: { dropUnresolved?: boolean }): Promise<Suggestion[]> {
   try {
     const doc = await vscode.workspace.openTextDocument(uri);
-    const lines = new Array<string>(doc.lineCount);
-    for (let i = 0; i < doc.lineCount; i++) lines[i] = doc.lineAt(i).text;
+    const lines = documentLines(doc);
+    const out: Suggestion[] = [];
     for (const s of items) {
-      if (s.anchor && s.anchor.trim().length > 0) {
-        const needle = s.anchor.replace(/^\+|^-|^\s/, '').trim();
-        const candidates: number[] = [];
-        for (let i = 0; i < lines.length; i++) {
-          if (lines[i].trim() === needle || lines[i].includes(needle)) {
-            candidates.push(i);
-          }
-        }
-        if (candidates.length) {
-          // choose closest to current s.line as a hint
-          const target = candidates.reduce((best, cur) => {
-            return Math.abs(cur - s.line) < Math.abs(best - s.line) ? cur : best;
-          }, candidates[0]);
-          s.line = target;
-        } else {
-          // clamp
-          s.line = Math.min(Math.max(0, s.line), doc.lineCount - 1);
-        }
+      const target = s.anchor ? locateAnchor(lines, s.anchor, s.line) : undefined;
+      if (target !== undefined) {
+        s.line = target;
+      } else if (opts?.dropUnresolved) {
+        continue;
       } else {
+        // clamp
         s.line = Math.min(Math.max(0, s.line), doc.lineCount - 1);
       }
+      out.push(s);
     }
-    return items;
+    return out;
   } catch {
-    return items;
+    return opts?.dropUnresolved ? [] : items;
   }
 }
 
-function filterToAddedLines(diff: string, items: Suggestion[]): Suggestion[] {
-  const added = addedLinesFromUnifiedDiff(diff);
-  return items.filter(s => added.has(s.line));
+function locateAnchor(lines: string[], anchor: string, hint: number): number | undefined {
+  const needle = anchor.replace(/^\+|^-|^\s/, '').trim();
+  if (!needle) return undefined;
+  const candidates: number[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].trim() === needle || lines[i].includes(needle)) {
+      candidates.push(i);
+    }
+  }
+  if (!candidates.length) return undefined;
+  // choose closest to current line as a hint
+  return candidates.reduce((best, cur) => {
+    return Math.abs(cur - hint) < Math.abs(best - hint) ? cur : best;
+  }, candidates[0]);
 }
 
-function addedLinesFromUnifiedDiff(diff: string): Set<number> {
-  const set = new Set<number>();
-  const lines = diff.split(/\r?\n/);
-  let inHunk = false;
-  let newLine = 0; // 1-based during walk
-  const header = /^@@\s+-(\d+),(\d+)\s+\+(\d+),(\d+)\s+@@/;
-  for (const line of lines) {
-    const m = line.match(header);
-    if (m) {
-      inHunk = true;
-      newLine = parseInt(m[3], 10);
-      continue;
-    }
-    if (!inHunk) continue;
-    if (!line) continue;
-    const t = line[0];
-    if (t === ' ') {
-      newLine++;
-    } else if (t === '+') {
-      set.add(newLine - 1); // store as 0-based
-      newLine++;
-    } else if (t === '-') {
-      // removed: does not advance newLine
-    } else if (t === '@') {
-      inHunk = false;
-    }
+// With docLines, an item counts as added when its document line's text is an added line of the diff; removal items were matched to deleted lines by the core
+function filterToAddedLines(diff: string, items: Suggestion[], docLines?: string[]): Suggestion[] {
+  if (docLines) {
+    const texts = addedLineTexts(diff);
+    return items.filter(s => s.removal || texts.has((docLines[s.line] ?? '').trim()));
   }
-  return set;
+  const added = addedLines(diff);
+  return items.filter(s => s.removal || added.has(s.line));
 }
 
-async function chooseBestComment(s: Suggestion): Promise<string | undefined> {
+async function chooseBestComment(s: Suggestion, prompt = 'Confirm or edit the comment to insert'): Promise<string | undefined> {
   const msg = (s.message || '').trim();
-  const langIsJa = (vscode.env.language || '').toLowerCase().startsWith('ja');
-  const fallback = 'Explain the intent and constraints.';
-  const prefill = msg || fallback;
+  const prefill = msg || 'Explain the intent and constraints.';
   const input = await vscode.window.showInputBox({
-    prompt: 'Confirm or edit the comment to insert',
+    prompt,
     value: prefill,
     validateInput: (v) => v.trim().length === 0 ? 'Comment cannot be empty' : undefined
   });
   return input?.trim();
 }
 
+function suppressionsFor(doc: vscode.TextDocument): Suppressions {
+  return suppressionsIn(documentLines(doc), doc.languageId);
+}
+
+function suppressionsIn(lines: string[], languageId: string): Suppressions {
+  return findSuppressions(lines, commentSyntaxResolver(languageId, lines));
+}
+
 async function filterAlreadyExplained(uri: vscode.Uri, items: Suggestion[]): Promise<Suggestion[]> {
   try {
     const doc = await vscode.workspace.openTextDocument(uri);
-    const token = getLineCommentToken(doc.languageId);
-    const hasAnyComment = (lineText: string): boolean => {
-      // 任意のコメントがあれば説明済みとみなす（簡易実装）
-      const idx = lineText.indexOf(token);
-      return idx !== -1;
-    };
-
-    const out: Suggestion[] = [];
-    for (const s of items) {
-      const line = Math.min(Math.max(0, s.line), doc.lineCount - 1);
-      let explained = false;
-      // Check same line and up to 3 lines above
-      for (let d = 0; d <= 3; d++) {
-        const i = line - d;
-        if (i < 0) break;
-        const text = doc.lineAt(i).text;
-        if (hasAnyComment(text)) { explained = true; break; }
-        // Stop early if we hit a non-empty, non-comment line above the target (except d==0)
-        if (d > 0) {
-          const trimmed = text.trim();
-          if (trimmed.length > 0 && !trimmed.startsWith(token)) {
-            // likely a code barrier; don't scan further up
-            break;
-          }
-        }
-      }
-      if (!explained) out.push(s);
-    }
-    return out;
+    const lines = documentLines(doc);
+    const syntaxAt = commentSyntaxResolver(doc.languageId, lines);
+    // Languages without comments (e.g. JSON) can never be explained
+    if (!syntaxAt(0)) return items;
+    const scan = scanComments(lines, syntaxAt);
+    // A comment near the deletion site explains the code that stayed, not the code that went
+    return items.filter(s => s.removal || !isAlreadyExplained(scan, lines, Math.min(Math.max(0, s.line), lines.length - 1)));
   } catch {
     return items;
   }
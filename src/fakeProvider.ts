@@ -0,0 +1,143 @@
+// Deterministic providers for tests, demos and offline CI: replies come from a
+// script or a recording, never from the network. Editor-independent.
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import { estimateTokens } from './analysis';
+import { ChatMessage, Completion, LLMProvider } from './providers';
+
+export interface FakeReply {
+  text: string;
+  truncated?: boolean;
+  key?: string; // requestKey() of the request this answers, as written by a recording
+  match?: string; // answers every request whose last message contains this text
+}
+
+// Computes a reply from the request; index counts requests from 0
+export type FakeResponder = (messages: ChatMessage[], index: number) => string | FakeReply | Promise<string | FakeReply>;
+
+export interface Recording {
+  version: number;
+  replies: FakeReply[];
+}
+
+export interface FakeProvider extends LLMProvider {
+  // Every request received, in order
+  readonly requests: ChatMessage[][];
+}
+
+const RECORDING_VERSION = 1;
+
+// Stable identity of a request, so a recording answers the same prompt again
+export function requestKey(messages: ChatMessage[]): string {
+  return createHash('sha1').update(JSON.stringify(messages.map(m => [m.role, m.content]))).digest('hex');
+}
+
+/**
+ * Provider answering from a script. A function computes each reply; a list is
+ * searched for a reply keyed to the request, then one whose `match` text the
+ * last message contains, then the next plain reply in order. Keyed and
+ * matching replies can answer more than once; plain replies are used up.
+ */
+export function createFakeProvider(script: (string | FakeReply)[] | FakeResponder, opts?: { id?: string; label?: string; chunkTokens?: number }): FakeProvider {
+  const requests: ChatMessage[][] = [];
+  const replies = typeof script === 'function' ? undefined : script.map(toReply);
+  let nextPlain = 0;
+  const respond = async (messages: ChatMessage[], index: number): Promise<FakeReply> => {
+    if (typeof script === 'function') return toReply(await script(messages, index));
+    const found = pickReply(replies!, messages, nextPlain);
+    if (!found) throw new Error(`Fake provider has no reply for request ${index + 1}`);
+    if (found.plain) nextPlain = found.position + 1;
+    return found.reply;
+  };
+  return {
+    id: opts?.id ?? 'fake',
+    label: opts?.label ?? 'Fake',
+    requiresApiKey: false,
+    chunkTokens: opts?.chunkTokens !== undefined ? () => opts.chunkTokens! : undefined,
+    requests,
+    settingsFrom: () => ({ model: 'fake' }),
+    complete: async (messages, _req, signal) => {
+      if (signal?.aborted) throw Object.assign(new Error('The operation was aborted'), { name: 'AbortError' });
+      requests.push(messages);
+      const reply = await respond(messages, requests.length - 1);
+      return toCompletion(messages, reply);
+    }
+  };
+}
+
+/**
+ * Provider replaying the recording named by WHYCOMMENT_REPLAY_FILE. Only the
+ * CLI and tests register it; it is not offered in the extension's settings.
+ * Plain replies are used up per file, so a recording of a sequence plays back
+ * in order across requests.
+ */
+export function createReplayProvider(): LLMProvider {
+  const nextPlainByFile = new Map<string, number>();
+  return {
+    id: 'replay',
+    label: 'Replay',
+    requiresApiKey: false,
+    settingsFrom: () => ({ model: 'replay' }),
+    complete: async messages => {
+      const recordingFile = process.env.WHYCOMMENT_REPLAY_FILE;
+      if (!recordingFile) throw new Error('No replay file: set WHYCOMMENT_REPLAY_FILE to a recording.');
+      const recording = loadRecording(recordingFile);
+      const found = pickReply(recording.replies, messages, nextPlainByFile.get(recordingFile) ?? 0);
+      if (!found) throw new Error(`${recordingFile} has no reply for this request (key ${requestKey(messages)})`);
+      if (found.plain) nextPlainByFile.set(recordingFile, found.position + 1);
+      return toCompletion(messages, found.reply);
+    }
+  };
+}
+
+// Wrap `complete` so every reply is appended to the sink, keyed to its request
+export function recordReplies(complete: LLMProvider['complete'], sink: FakeReply[]): LLMProvider['complete'] {
+  return async (messages, req, signal) => {
+    const completion = await complete(messages, req, signal);
+    sink.push({ key: requestKey(messages), text: completion.text, ...(completion.truncated ? { truncated: true } : {}) });
+    return completion;
+  };
+}
+
+export function serializeRecording(replies: FakeReply[]): string {
+  const recording: Recording = { version: RECORDING_VERSION, replies };
+  return JSON.stringify(recording, null, 2) + '\n';
+}
+
+// A recording file, or a bare list of replies written by hand
+export function loadRecording(file: string): Recording {
+  let data: any;
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (err) {
+    throw new Error(`Cannot read recording ${file}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const replies = Array.isArray(data) ? data : data?.replies;
+  if (!Array.isArray(replies)) throw new Error(`${file} is invalid: expected {"replies": [...]}`);
+  const invalid = replies.findIndex(r => typeof r !== 'string' && typeof r?.text !== 'string');
+  if (invalid >= 0) throw new Error(`${file} is invalid: reply ${invalid + 1} has no text`);
+  return { version: data?.version ?? RECORDING_VERSION, replies: replies.map(toReply) };
+}
+
+function toReply(r: string | FakeReply): FakeReply {
+  return typeof r === 'string' ? { text: r } : r;
+}
+
+function pickReply(replies: FakeReply[], messages: ChatMessage[], nextPlain: number): { reply: FakeReply; position: number; plain: boolean } | undefined {
+  const key = requestKey(messages);
+  const keyed = replies.findIndex(r => r.key === key);
+  if (keyed >= 0) return { reply: replies[keyed], position: keyed, plain: false };
+  const last = messages[messages.length - 1]?.content ?? '';
+  const matching = replies.findIndex(r => r.match !== undefined && last.includes(r.match));
+  if (matching >= 0) return { reply: replies[matching], position: matching, plain: false };
+  for (let i = nextPlain; i < replies.length; i++) {
+    if (replies[i].key === undefined && replies[i].match === undefined) return { reply: replies[i], position: i, plain: true };
+  }
+  return undefined;
+}
+
+// Usage is estimated so request budgets behave as with a real provider
+function toCompletion(messages: ChatMessage[], reply: FakeReply): Completion {
+  const inputTokens = messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+  return { text: reply.text, truncated: reply.truncated, usage: { inputTokens, outputTokens: estimateTokens(reply.text) } };
+}
@@ -1,10 +1,17 @@
-import * as vscode from 'vscode';
+// All git access: repository discovery, per-file diffs, changed-file lists and refs.
+// Editor-independent (paths, not URIs) so the CLI and the extension share it.
 import { execFile } from 'child_process';
+import * as fs from 'fs';
 import * as path from 'path';
+import { DiffScope } from './types';
+import { addedFileDiff, parseUnifiedDiff } from './diff';
+
+// Flags for every diff read by WhyComment: no pager colors or external drivers, line-ending-only changes ignored
+const DIFF_FLAGS = ['--no-color', '--no-ext-diff', '--ignore-cr-at-eol'];
 
 function execGit(args: string[], cwd: string): Promise<{ stdout: string; stderr: string }>
 { return new Promise((resolve, reject) => {
-    execFile('git', args, { cwd }, (err, stdout, stderr) => {
+    execFile('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 }, (err, stdout, stderr) => {
       if (err) {
         reject(Object.assign(new Error(`git ${args.join(' ')} failed: ${stderr || err.message}`), { stdout, stderr }));
       } else {
@@ -14,49 +21,301 @@ function execGit(args: string[], cwd: string): Promise<{ stdout: string; stderr:
   });
 }
 
-export async function getRepoRoot(uri: vscode.Uri): Promise<string | undefined> {
-  const folder = vscode.workspace.getWorkspaceFolder(uri);
-  if (!folder) return undefined;
+// Directory -> root of the innermost repository containing it; misses are not cached so a later `git init` is seen
+const repoRootByDir = new Map<string, Promise<string | undefined>>();
+
+/**
+ * Root of the repository that owns a file or folder. Resolved from the file's
+ * own directory, so files in submodules and nested repositories map to those
+ * repositories rather than to the one at the workspace folder.
+ */
+export async function getRepoRoot(fsPath: string): Promise<string | undefined> {
+  const dir = await existingDirFor(fsPath);
+  if (!dir) return undefined;
+  let pending = repoRootByDir.get(dir);
+  if (!pending) {
+    pending = execGit(['rev-parse', '--show-toplevel'], dir).then(({ stdout }) => path.normalize(stdout.trim()), () => undefined);
+    repoRootByDir.set(dir, pending);
+  }
+  const root = await pending;
+  if (!root) repoRootByDir.delete(dir);
+  return root;
+}
+
+// Forget resolved roots, e.g. after workspace folders changed or a repository was moved
+export function clearRepoRootCache(): void {
+  repoRootByDir.clear();
+}
+
+// The path itself when it is a directory, else its closest existing parent (the file may be deleted)
+async function existingDirFor(fsPath: string): Promise<string | undefined> {
+  let dir = fsPath;
   try {
-    const { stdout } = await execGit(['rev-parse', '--show-toplevel'], folder.uri.fsPath);
-    return stdout.trim();
+    if ((await fs.promises.stat(dir)).isDirectory()) return dir;
+  } catch {}
+  for (;;) {
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+    try {
+      if ((await fs.promises.stat(dir)).isDirectory()) return dir;
+    } catch {}
+  }
+}
+
+/**
+ * Every repository with files in a workspace folder: the one containing the
+ * folder, initialized submodules (recursively) and nested repositories that
+ * show up as untracked directories. Roots are absolute paths, outermost first.
+ */
+export async function listRepositories(folderPath: string): Promise<string[]> {
+  const found: string[] = [];
+  const queue: string[] = [];
+  const top = await getRepoRoot(folderPath);
+  if (top) queue.push(top);
+  // A folder that is not itself in a repository may still hold several, e.g. a checkout directory
+  if (!top) queue.push(...await reposBelow(folderPath, 2));
+  while (queue.length) {
+    const root = queue.shift()!;
+    if (found.includes(root)) continue;
+    found.push(root);
+    queue.push(...await submodules(root), ...await untrackedRepos(root));
+  }
+  const inFolder = (p: string) => p === folderPath || p.startsWith(folderPath + path.sep);
+  // The containing repository may start above the folder; its nested repositories must be inside it
+  return found.filter(r => r === top || inFolder(r));
+}
+
+async function submodules(repoRoot: string): Promise<string[]> {
+  try {
+    const { stdout } = await execGit(['-C', repoRoot, 'submodule', 'status'], repoRoot);
+    const out: string[] = [];
+    for (const line of stdout.split(/\r?\n/)) {
+      // " <sha> <path> (<describe>)"; '-' marks a submodule that is not checked out
+      const m = line.match(/^([ +U-])[0-9a-f]+ (.+?)(?: \(.*\))?$/);
+      if (m && m[1] !== '-') out.push(path.join(repoRoot, m[2]));
+    }
+    return out;
   } catch {
-    return undefined;
+    return [];
   }
 }
 
-export async function getDiffForFile(uri: vscode.Uri, contextLines: number): Promise<string> {
-  const folder = vscode.workspace.getWorkspaceFolder(uri);
-  if (!folder) throw new Error('Workspace folder not found for file');
-  const repoRoot = await getRepoRoot(uri);
+async function reposBelow(dir: string, depth: number): Promise<string[]> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  if (entries.some(e => e.name === '.git')) return [path.normalize(dir)];
+  if (depth === 0) return [];
+  const out: string[] = [];
+  for (const e of entries) {
+    if (e.isDirectory() && e.name !== 'node_modules' && !e.name.startsWith('.')) out.push(...await reposBelow(path.join(dir, e.name), depth - 1));
+  }
+  return out;
+}
+
+// Git lists an embedded repository as a single untracked directory entry ("dir/")
+async function untrackedRepos(repoRoot: string): Promise<string[]> {
+  let stdout: string;
+  try {
+    ({ stdout } = await execGit(['-C', repoRoot, 'ls-files', '--others', '--exclude-standard', '--directory', '-z'], repoRoot));
+  } catch {
+    return [];
+  }
+  const out: string[] = [];
+  for (const p of stdout.split('\0')) {
+    if (!p.endsWith('/')) continue;
+    const dir = path.join(repoRoot, p);
+    if (fs.existsSync(path.join(dir, '.git'))) out.push(path.normalize(dir));
+  }
+  return out;
+}
+
+export interface NameStatusEntry {
+  status: string; // A, M, D, R, C, T or ? (untracked)
+  path: string; // repo-relative, forward slashes
+  oldPath?: string; // source path for renames/copies
+}
+
+// False in a repository without commits, where HEAD does not resolve yet
+export async function hasHead(repoRoot: string): Promise<boolean> {
+  try {
+    await execGit(['-C', repoRoot, 'rev-parse', '--verify', '--quiet', 'HEAD^{commit}'], repoRoot);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Unified diff for one file. Scope 'all' (default) compares the working tree with `base`
+ * (default HEAD; any branch, tag or commit), 'staged' the index with HEAD and
+ * 'unstaged' the working tree with the index. `base` only applies to 'all'.
+ * Untracked files, and every file of a repository without commits, diff as
+ * entirely added; a renamed file is diffed against its old path. Binary files
+ * have no analyzable lines and yield an empty diff.
+ */
+export async function getDiffForFile(fsPath: string, contextLines: number, opts?: { base?: string; scope?: DiffScope }): Promise<string> {
+  const repoRoot = await getRepoRoot(fsPath);
   if (!repoRoot) throw new Error('Git repository not found');
-  const rel = path.relative(repoRoot, uri.fsPath);
-  // Use unified diff with context lines against HEAD
-  const args = ['-C', repoRoot, 'diff', `--unified=${contextLines}`, '--no-color', 'HEAD', '--', rel];
-  const { stdout } = await execGit(args, repoRoot);
-  if (stdout && stdout.trim()) return stdout;
-  // Fallback for untracked files: synthesize a diff from empty
-  const tracked = await isTracked(repoRoot, rel);
-  if (!tracked) {
-    const data = await vscode.workspace.fs.readFile(uri);
-    const content = Buffer.from(data).toString('utf8');
-    const lines = content.split(/\r?\n/);
-    const header = [
-      `diff --git a/${rel} b/${rel}`,
-      `new file mode 100644`,
-      `--- /dev/null`,
-      `+++ b/${rel}`,
-      `@@ -0,0 +1,${lines.length} @@`
-    ];
-    const body = lines.map(l => `+${l}`);
-    return header.concat(body).join('\n');
+  const rel = path.relative(repoRoot, fsPath).replace(/\\/g, '/');
+  const scope = opts?.scope ?? 'all';
+  const base = opts?.base || 'HEAD';
+  // What to compare: the index with HEAD (without commits, --cached compares with the empty tree), a base with the working tree, or the index with the working tree
+  let against: string[] = [];
+  if (scope === 'staged') {
+    against = ['--cached'];
+  } else if (scope === 'all') {
+    if (base === 'HEAD' && !(await hasHead(repoRoot))) return readAsAddedDiff(fsPath, rel);
+    against = [base];
   }
+  const args = ['-C', repoRoot, 'diff', `--unified=${contextLines}`, ...DIFF_FLAGS, ...against];
+  const { stdout } = await execGit([...args, '--', rel], repoRoot);
+  const patch = parseUnifiedDiff(stdout)[0];
+  if (patch?.binary) return '';
+  if (patch?.status === 'added' && scope !== 'unstaged') {
+    const renamed = await diffAgainstRenameSource(repoRoot, rel, args, against);
+    if (renamed !== undefined) return renamed;
+  }
+  if (stdout.trim() || scope === 'staged') return stdout;
+  // Untracked files have nothing to compare with: synthesize a diff from empty
+  if (!(await isTracked(repoRoot, rel))) return readAsAddedDiff(fsPath, rel);
   return stdout;
 }
 
+// Diff a file added under a new name against the file it was renamed from, if git pairs them
+async function diffAgainstRenameSource(repoRoot: string, rel: string, diffArgs: string[], against: string[]): Promise<string | undefined> {
+  const { stdout } = await execGit(['-C', repoRoot, 'diff', '--name-status', '-z', '-M', ...against], repoRoot);
+  const entry = parseNameStatus(stdout).find(e => e.status === 'R' && e.path === rel);
+  if (!entry?.oldPath) return undefined;
+  const { stdout: diff } = await execGit([...diffArgs, '-M', '--', entry.oldPath, rel], repoRoot);
+  const patch = parseUnifiedDiff(diff).find(f => f.newPath === rel);
+  if (!patch || patch.binary) return patch ? '' : undefined;
+  return patch.text;
+}
+
+async function readAsAddedDiff(fsPath: string, rel: string): Promise<string> {
+  const data = await fs.promises.readFile(fsPath);
+  if (isBinary(data)) return '';
+  return addedFileDiff(rel, data.toString('utf8'));
+}
+
+// Same heuristic as git: a NUL byte in the first 8000 bytes
+function isBinary(data: Buffer): boolean {
+  return data.subarray(0, 8000).includes(0);
+}
+
 async function isTracked(repoRoot: string, rel: string): Promise<boolean> {
   try {
     await execGit(['-C', repoRoot, 'ls-files', '--error-unmatch', '--', rel], repoRoot);
     return true;
   } catch { return false; }
 }
+
+// Content of a file as staged in the index (`git show :path`); undefined when it is not in the index
+export async function getStagedContent(fsPath: string): Promise<string | undefined> {
+  const repoRoot = await getRepoRoot(fsPath);
+  if (!repoRoot) return undefined;
+  const rel = path.relative(repoRoot, fsPath).replace(/\\/g, '/');
+  try {
+    const { stdout } = await execGit(['-C', repoRoot, 'show', `:${rel}`], repoRoot);
+    return stdout;
+  } catch {
+    return undefined;
+  }
+}
+
+// `git diff --cached`, for pre-commit hooks; works before the first commit
+export async function getStagedDiff(cwd: string, contextLines: number): Promise<string> {
+  const { stdout } = await execGit(['diff', '--cached', `--unified=${contextLines}`, ...DIFF_FLAGS, '-M'], cwd);
+  return stdout;
+}
+
+// `git diff <range>`, e.g. origin/main...HEAD in CI
+export async function getRangeDiff(cwd: string, range: string, contextLines: number): Promise<string> {
+  const { stdout } = await execGit(['diff', `--unified=${contextLines}`, ...DIFF_FLAGS, '-M', range], cwd);
+  return stdout;
+}
+
+// Absolute path of a file in the git directory, e.g. 'hooks' (honors core.hooksPath and worktrees)
+export async function getGitPath(cwd: string, name: string): Promise<string> {
+  const { stdout } = await execGit(['rev-parse', '--git-path', name], cwd);
+  return path.resolve(cwd, stdout.trim());
+}
+
+export async function getMergeBase(repoRoot: string, ref: string, other = 'HEAD'): Promise<string> {
+  const { stdout } = await execGit(['-C', repoRoot, 'merge-base', ref, other], repoRoot);
+  return stdout.trim();
+}
+
+// Best guess at the branch this one will be merged into: origin/HEAD, then main, then master
+export async function getDefaultBaseRef(repoRoot: string): Promise<string | undefined> {
+  try {
+    const { stdout } = await execGit(['-C', repoRoot, 'symbolic-ref', '--quiet', '--short', 'refs/remotes/origin/HEAD'], repoRoot);
+    if (stdout.trim()) return stdout.trim();
+  } catch {}
+  for (const candidate of ['main', 'master', 'origin/main', 'origin/master']) {
+    try {
+      await execGit(['-C', repoRoot, 'rev-parse', '--verify', '--quiet', `${candidate}^{commit}`], repoRoot);
+      return candidate;
+    } catch {}
+  }
+  return undefined;
+}
+
+export async function listRefs(repoRoot: string): Promise<{ name: string; kind: 'branch' | 'remote' | 'tag' }[]> {
+  const { stdout } = await execGit(['-C', repoRoot, 'for-each-ref', '--format=%(refname)', 'refs/heads', 'refs/remotes', 'refs/tags'], repoRoot);
+  const out: { name: string; kind: 'branch' | 'remote' | 'tag' }[] = [];
+  for (const full of stdout.split(/\r?\n/)) {
+    if (!full) continue;
+    if (full.startsWith('refs/heads/')) out.push({ name: full.slice('refs/heads/'.length), kind: 'branch' });
+    else if (full.startsWith('refs/remotes/') && !full.endsWith('/HEAD')) out.push({ name: full.slice('refs/remotes/'.length), kind: 'remote' });
+    else if (full.startsWith('refs/tags/')) out.push({ name: full.slice('refs/tags/'.length), kind: 'tag' });
+  }
+  return out;
+}
+
+/**
+ * Files that differ between `base` and the working tree, plus untracked files.
+ * Pass a merge-base commit to get `base...HEAD` together with uncommitted edits.
+ * Submodules and nested repositories are left out; their files belong to their own repository.
+ */
+export async function getNameStatus(repoRoot: string, base: string): Promise<NameStatusEntry[]> {
+  const { stdout } = await execGit(['-C', repoRoot, 'diff', '--name-status', '-z', '-M', '--ignore-submodules', base], repoRoot);
+  return [...parseNameStatus(stdout), ...await untrackedFiles(repoRoot)];
+}
+
+// Uncommitted changes (staged or not) and untracked files; before the first commit every file counts as added
+export async function getChangedFiles(repoRoot: string): Promise<NameStatusEntry[]> {
+  if (await hasHead(repoRoot)) return getNameStatus(repoRoot, 'HEAD');
+  const { stdout } = await execGit(['-C', repoRoot, 'ls-files', '-z'], repoRoot);
+  const staged = stdout.split('\0').filter(Boolean).map(p => ({ status: 'A', path: p }));
+  return [...staged, ...await untrackedFiles(repoRoot)];
+}
+
+function parseNameStatus(stdout: string): NameStatusEntry[] {
+  const out: NameStatusEntry[] = [];
+  const parts = stdout.split('\0');
+  for (let i = 0; i < parts.length; i++) {
+    const code = parts[i];
+    if (!code) continue;
+    const status = code[0];
+    if (status === 'R' || status === 'C') {
+      out.push({ status, oldPath: parts[i + 1], path: parts[i + 2] });
+      i += 2;
+    } else {
+      out.push({ status, path: parts[i + 1] });
+      i += 1;
+    }
+  }
+  return out;
+}
+
+async function untrackedFiles(repoRoot: string): Promise<NameStatusEntry[]> {
+  const { stdout } = await execGit(['-C', repoRoot, 'ls-files', '--others', '--exclude-standard', '-z'], repoRoot);
+  // Embedded repositories are listed as "dir/"
+  return stdout.split('\0').filter(p => p && !p.endsWith('/')).map(p => ({ status: '?', path: p }));
+}
@@ -0,0 +1,19 @@
+// Minimal glob matcher supporting ** and * only.
+export function matchesGlob(pattern: string, filePath: string): boolean {
+  // Normalize to posix-like for matching
+  const normalized = filePath.replace(/\\/g, '/');
+  const normPat = pattern.replace(/\\/g, '/');
+
+  // Escape regex special chars except *
+  const esc = (s: string) => s.replace(/[-/\\^$+?.()|[\]{}]/g, '\\$&');
+  let rx = esc(normPat)
+    .replace(/\*\*/g, '§§DOUBLESTAR§§')
+    .replace(/\*/g, '[^/]*')
+    .replace(/§§DOUBLESTAR§§/g, '.*');
+  rx = `^${rx}$`;
+  return new RegExp(rx).test(normalized);
+}
+
+export function anyGlobMatch(patterns: string[], filePath: string): boolean {
+  return patterns.some(p => matchesGlob(p, filePath));
+}
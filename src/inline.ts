@@ -0,0 +1,88 @@
+import * as vscode from 'vscode';
+import { Suggestion } from './types';
+import { showInfo } from './utils';
+
+export type InlineStyle = 'codelens' | 'decoration' | 'off';
+
+// Why-question above the flagged line, followed by Answer / Variants / Ignore actions
+export class SuggestionCodeLensProvider implements vscode.CodeLensProvider {
+  private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+  constructor(private getItems: (uri: vscode.Uri) => Suggestion[], private getStyle: () => InlineStyle) {}
+
+  refresh(): void { this._onDidChangeCodeLenses.fire(); }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    if (this.getStyle() !== 'codelens') return [];
+    const lenses: vscode.CodeLens[] = [];
+    for (const s of this.getItems(document.uri)) {
+      if (s.line >= document.lineCount) continue;
+      const range = new vscode.Range(s.line, 0, s.line, 0);
+      const arg = { suggestion: s };
+      // An empty command id renders the question as plain, non-clickable text
+      lenses.push(new vscode.CodeLens(range, { title: `$(${s.removal ? 'diff-removed' : 'question'}) ${s.message}`, command: '' }));
+      lenses.push(new vscode.CodeLens(range, { title: 'Answer', command: 'whycomment.applySuggestion', arguments: [arg] }));
+      // Variants are written for the flagged line, which for removals is not the deleted code
+      if (s.removal) lenses.push(new vscode.CodeLens(range, { title: 'Commit Message', command: 'whycomment.addToCommitMessage', arguments: [arg] }));
+      else lenses.push(new vscode.CodeLens(range, { title: 'Variants', command: 'whycomment.suggestComments', arguments: [arg] }));
+      lenses.push(new vscode.CodeLens(range, { title: 'Ignore', command: 'whycomment.ignoreSuggestion', arguments: [arg] }));
+    }
+    return lenses;
+  }
+}
+
+// Faded after-line text with the why-question, for users who prefer no CodeLens
+export class SuggestionDecorations implements vscode.Disposable {
+  private type = vscode.window.createTextEditorDecorationType({
+    after: {
+      color: new vscode.ThemeColor('editorCodeLens.foreground'),
+      fontStyle: 'italic',
+      margin: '0 0 0 2em'
+    },
+    isWholeLine: true
+  });
+
+  constructor(private getItems: (uri: vscode.Uri) => Suggestion[], private getStyle: () => InlineStyle) {}
+
+  refresh(): void {
+    const enabled = this.getStyle() === 'decoration';
+    for (const editor of vscode.window.visibleTextEditors) {
+      const options: vscode.DecorationOptions[] = [];
+      if (enabled) {
+        for (const s of this.getItems(editor.document.uri)) {
+          if (s.line >= editor.document.lineCount) continue;
+          options.push({
+            range: new vscode.Range(s.line, 0, s.line, 0),
+            hoverMessage: s.message,
+            renderOptions: { after: { contentText: s.message } }
+          });
+        }
+      }
+      editor.setDecorations(this.type, options);
+    }
+  }
+
+  dispose(): void {
+    this.type.dispose();
+  }
+}
+
+// Move the cursor to the next (or previous) suggestion in the active editor, wrapping around
+export function revealAdjacentSuggestion(items: Suggestion[], direction: 1 | -1): void {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) return;
+  const lines = Array.from(new Set(items.map(s => s.line))).sort((a, b) => a - b);
+  if (!lines.length) {
+    showInfo('No suggestions in this file');
+    return;
+  }
+  const current = editor.selection.active.line;
+  const target = direction === 1
+    ? lines.find(l => l > current) ?? lines[0]
+    : [...lines].reverse().find(l => l < current) ?? lines[lines.length - 1];
+  const line = Math.min(target, editor.document.lineCount - 1);
+  const pos = new vscode.Position(line, editor.document.lineAt(line).firstNonWhitespaceCharacterIndex);
+  editor.selection = new vscode.Selection(pos, pos);
+  editor.revealRange(new vscode.Range(pos, pos), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+}
@@ -1,257 +1,67 @@
 import * as vscode from 'vscode';
 import { Suggestion } from './types';
-import { sha1 } from './utils';
-
-// Minimal unified-diff hunk parser (local)
-interface DiffHunk {
-  newStart: number; // 1-based
-  newLines: number;
-  lines: string[]; // with leading +/-/space
-}
-
-function parseUnifiedDiff(diff: string): DiffHunk[] {
-  const hunks: DiffHunk[] = [];
-  const lines = diff.split(/\r?\n/);
-  let current: DiffHunk | null = null;
-  const hunkHeader = /^@@\s+-(\d+),(\d+)\s+\+(\d+),(\d+)\s+@@/;
-  for (const line of lines) {
-    const m = line.match(hunkHeader);
-    if (m) {
-      if (current) hunks.push(current);
-      current = { newStart: parseInt(m[3], 10), newLines: parseInt(m[4], 10), lines: [] };
-      continue;
-    }
-    if (!current) continue;
-    if (line.startsWith('+') || line.startsWith('-') || line.startsWith(' ')) {
-      current.lines.push(line);
-    }
-  }
-  if (current) hunks.push(current);
-  return hunks;
-}
-
-type ChatMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+import { getLog, isCancellation, sha1 } from './utils';
+import { ResolvedProvider } from './providers';
+import { AnalysisItem, OutputLanguage, ResponseStats, analyzeDiff, requestCommentVariants } from './analysis';
+import { ResultCache, analysisCacheKey } from './resultCache';
+import { PromptRules } from './rules';
 
 interface LLMRequestOptions {
-  apiKey: string;
-  provider: 'openai' | 'claude';
+  llm: ResolvedProvider;
   language: 'auto' | 'en' | 'ja';
-  model: string;
+  signal?: AbortSignal;
+  maxParallel?: number; // concurrent chunk requests for one diff
+  cache?: ResultCache; // reuse results for an identical diff, model and language
+  rules?: PromptRules; // team rules for the file being analyzed
 }
 
 export async function analyzeWithLLM(uri: vscode.Uri, diff: string, opts: LLMRequestOptions): Promise<Suggestion[]> {
-  if (!opts.apiKey) return [];
-  const annotated = annotateDiffWithNewLines(diff);
-  if (!annotated.trim()) return [];
-  const effectiveLang: 'en' | 'ja' = opts.language === 'auto'
-    ? ((vscode.env.language || '').toLowerCase().startsWith('ja') ? 'ja' : 'en')
-    : opts.language;
-  const system = buildSystemPrompt(effectiveLang);
-  const user = buildUserPrompt(annotated, effectiveLang);
-  const messages: ChatMessage[] = [
-    { role: 'system', content: system },
-    { role: 'user', content: user }
-  ];
-  try {
-    const completion = opts.provider === 'claude'
-      ? await callClaudeWithMessages(messages, opts.apiKey, opts.model)
-      : await callOpenAIWithMessages(messages, opts.apiKey, opts.model);
-    return parseLLMResponse(uri, completion, effectiveLang);
-  } catch (err) {
-    const msg = err instanceof Error ? err.message : String(err);
-    void vscode.window.showWarningMessage(`WhyComment LLM failed: ${msg}`);
-    return [];
+  const language = effectiveLanguage(opts.language);
+  const key = opts.cache ? analysisCacheKey(diff, opts.llm, language, opts.rules) : undefined;
+  let items = key ? await opts.cache!.get(key) : undefined;
+  if (!items) {
+    // Errors propagate so callers can report them per file (batch runs count failures)
+    items = await analyzeDiff(diff, { llm: opts.llm, language, signal: opts.signal, maxParallel: opts.maxParallel, rules: opts.rules, onStats: s => logStats(opts.llm, s) });
+    if (key) await opts.cache!.set(key, items);
   }
+  return items.map(it => toSuggestion(uri, it));
 }
 
 export async function suggestCommentVariantsForLine(codeSnippet: string, opts: LLMRequestOptions & { languagePref?: 'auto' | 'en' | 'ja' }): Promise<string[]> {
-  if (!opts.apiKey) return [];
-  const effectiveLang: 'en' | 'ja' = opts.language === 'auto'
-    ? ((vscode.env.language || '').toLowerCase().startsWith('ja') ? 'ja' : 'en')
-    : opts.language;
-  const system = [
-    'Role: Senior engineer writing helpful explanatory code comments.',
-    'Write concise, single-line explanations that clarify the rationale, assumptions, or constraints behind the code line(s).',
-    'Do not include comment tokens, markdown, or code fences. Keep each under ~80 characters. Language must match the requested locale.',
-    effectiveLang === 'ja' ? 'Language: Japanese.' : 'Language: English.'
-  ].join('\n');
-  const user = [
-    'Given the following code context, propose three alternative comment texts to insert immediately above the highlighted line.',
-    'Focus on the intent and non-obvious reasoning. Avoid restating the code.',
-    'Strict output: return one JSON object: { "variants": ["...","...","..."] } with exactly 3 items.',
-    '',
-    'Code context (the target line is marked with >>>):',
-    codeSnippet
-  ].join('\n');
-  const messages: ChatMessage[] = [ { role: 'system', content: system }, { role: 'user', content: user } ];
   try {
-    const completion = opts.provider === 'claude'
-      ? await callClaudeWithMessages(messages, opts.apiKey, opts.model)
-      : await callOpenAIWithMessages(messages, opts.apiKey, opts.model);
-    const parsed = tryParseJSON(completion);
-    if (parsed && Array.isArray(parsed.variants)) {
-      return parsed.variants.map((s: any) => String(s)).filter((s: string) => s.trim().length > 0).slice(0, 3);
-    }
-    // fallback: try to extract array
-    const arr = tryParseJSONArray(completion);
-    if (Array.isArray(arr)) return arr.map((s: any) => String(s)).slice(0, 3);
+    return await requestCommentVariants(codeSnippet, { llm: opts.llm, language: effectiveLanguage(opts.language), signal: opts.signal, rules: opts.rules, onStats: s => logStats(opts.llm, s) });
   } catch (err) {
+    if (isCancellation(err)) return [];
     const msg = err instanceof Error ? err.message : String(err);
     void vscode.window.showWarningMessage(`WhyComment LLM (variants) failed: ${msg}`);
   }
   return [];
 }
 
-function buildSystemPrompt(lang: 'en' | 'ja'): string {
-  const langInstr = lang === 'ja' ? 'Language: Japanese.' : 'Language: English.';
-  return [
-    'Role: Reviewer for contextual "why" (rationale/assumptions).',
-    'No style/refactor advice. Keep questions short and context-first.',
-    'Skip if same line or <= 3 lines above already has a comment.',
-    'Focus: comment where a reader would pause and need rationale - non-obvious ordering/early-continue/special-cases, unexplained constants/thresholds, math/tax/discount order, truncation/limits, init/sleep/heartbeat, complex conditions/regex/bitwise. Treat these as cues, not a checklist.',
-    'Granularity: Make fine-grained, line-level calls. Do not summarize across multiple changes. Even for large diffs, include every added line that warrants a why-question as its own item.',
-    'Style for message: start with "Why" (en) or "\u306a\u305c" (ja), end with "?", keep <= 80 chars, and make it specific to the line and its surrounding context.',
-    langInstr
-  ].join('\n');
-}
-
-function buildUserPrompt(annotatedDiff: string, lang: 'en' | 'ja'): string {
-  return [
-    'Given an annotated unified git diff for a single file:',
-    '- Each added line is prefixed with its absolute NEW FILE line number in square brackets, e.g. "[42] +const x = 1".',
-    'Task: Identify added lines that feel contextually surprising and would prompt a "why" explanation. Only consider added lines (+).',
-    'Do not collapse or summarize. Output separate items for each applicable line, even if many lines qualify.',
-    (lang === 'ja' ? 'Output language: Japanese.' : 'Output language: English.'),
-    'Strict format: Return exactly one JSON object { "items": [ { "line": <0-based absolute new-file line>, "message": <Why-question>, "anchor": <exact code text> } ] }. No extra keys/markdown/code fences. If none, return { "items": [] }.',
-    '',
-    '- Derive "line" from the bracketed line numbers (absolute NEW FILE lines). Convert to 0-based. Only output JSON.',
-    '',
-    annotatedDiff
-  ].join('\n');
-}
-
-function annotateDiffWithNewLines(diff: string): string {
-  const hunks = parseUnifiedDiff(diff);
-  const out: string[] = [];
-  for (const h of hunks) {
-    let newLine = h.newStart;
-    for (const l of h.lines) {
-      const type = l[0];
-      const text = l.slice(1);
-      if (type === ' ') {
-        newLine++;
-      } else if (type === '+') {
-        out.push(`[${newLine}] ${type}${text}`);
-        newLine++;
-      } else if (type === '-') {
-        // ignore deletions
-      }
-    }
-  }
-  return out.join('\n');
-}
-
-async function callOpenAIWithMessages(messages: ChatMessage[], apiKey: string, model: string): Promise<string> {
-  const fetchFn = (globalThis as any).fetch as (input: any, init?: any) => Promise<any>;
-  if (!fetchFn) throw new Error('fetch is not available in this environment');
-  const body = {
-    model: model || 'gpt-4o-mini',
-    messages,
-    temperature: 0.2,
-    max_tokens: 3000,
-    response_format: { type: 'json_object' }
-  } as any;
-  const resp = await fetchFn('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${apiKey}` },
-    body: JSON.stringify(body)
-  });
-  if (!resp.ok) throw new Error(`OpenAI HTTP ${resp.status}`);
-  const data = await resp.json() as any;
-  return data.choices?.[0]?.message?.content ?? '[]';
+// Per-model format compliance, visible in the WhyComment output channel
+function logStats(llm: ResolvedProvider, s: ResponseStats): void {
+  const chunks = s.chunks && s.chunks > 1 ? `, ${s.chunks} chunks` : '';
+  const truncated = s.truncated ? `, ${s.truncated} truncated` : '';
+  const line = `${s.kind} ${llm.provider.id}/${llm.request.model}: ${s.received} received, ${s.invalid} invalid, ${s.outsideDiff} outside diff${s.repaired ? ', repaired' : ''}${chunks}${truncated}`;
+  if (s.invalid || s.outsideDiff || s.repaired) getLog().warn(line); else getLog().info(line);
 }
 
-async function callClaudeWithMessages(messages: ChatMessage[], apiKey: string, model: string): Promise<string> {
-  const fetchFn = (globalThis as any).fetch as (input: any, init?: any) => Promise<any>;
-  if (!fetchFn) throw new Error('fetch is not available in this environment');
-  const systemMsg = messages.find(m => m.role === 'system')?.content ?? 'You output only JSON, nothing else.';
-  const msgList = messages.filter(m => m.role !== 'system');
-  const body = {
-    model: model || 'claude-3-5-haiku-latest',
-    max_tokens: 3000,
-    temperature: 0.2,
-    system: systemMsg,
-    messages: msgList
-  } as any;
-  const resp = await fetchFn('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json', 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' },
-    body: JSON.stringify(body)
-  });
-  if (!resp.ok) throw new Error(`Claude HTTP ${resp.status}`);
-  const data = await resp.json() as any;
-  return data?.content?.[0]?.text ?? '[]';
-}
-
-function parseLLMResponse(uri: vscode.Uri, completion: string, lang: 'en' | 'ja'): Suggestion[] {
-  // Try strict parse first
-  let arr: any = tryParseJSON(completion);
-  if (arr && Array.isArray(arr.items)) arr = arr.items;
-  if (!Array.isArray(arr)) {
-    // Fallback: extract JSON objects and parse individually
-    const objs: any[] = [];
-    const re = /\{[\s\S]*?\}/g;
-    const matches = completion.match(re) || [];
-    for (const m of matches) {
-      const o = tryParseJSON(m);
-      if (o && typeof o === 'object' && ('line' in o)) {
-        objs.push(o);
-      }
-    }
-    arr = objs;
-  }
-  if (!Array.isArray(arr)) return [];
-  const out: Suggestion[] = [];
-  for (const it of arr) {
-    const line = typeof it.line === 'number' ? it.line : 0;
-    const message = String(it.message ?? (lang === 'ja' ? '\\u306a\\u305c\\uff1f' : 'Why?'));
-    const anchor = typeof it.anchor === 'string' ? it.anchor : undefined;
-    out.push({
-      id: sha1(`${uri.toString()}:${line}:${message}:llm`),
-      uri,
-      line,
-      message,
-      anchor,
-      source: 'llm',
-      createdAt: Date.now()
-    });
-  }
-  return out;
+function effectiveLanguage(language: 'auto' | 'en' | 'ja'): OutputLanguage {
+  if (language !== 'auto') return language;
+  return (vscode.env.language || '').toLowerCase().startsWith('ja') ? 'ja' : 'en';
 }
 
-function tryParseJSON(text: string): any | undefined {
-  try {
-    return JSON.parse(text);
-  } catch {
-    // Try to find top-level array
-    const start = text.indexOf('[');
-    const end = text.lastIndexOf(']');
-    if (start >= 0 && end > start) {
-      try { return JSON.parse(text.slice(start, end + 1)); } catch {}
-    }
-    return undefined;
-  }
-}
-
-function tryParseJSONArray(text: string): any[] | undefined {
-  try {
-    const o = JSON.parse(text);
-    if (Array.isArray(o)) return o;
-  } catch {}
-  const start = text.indexOf('[');
-  const end = text.lastIndexOf(']');
-  if (start >= 0 && end > start) {
-    try { const a = JSON.parse(text.slice(start, end + 1)); if (Array.isArray(a)) return a; } catch {}
-  }
-  return undefined;
+function toSuggestion(uri: vscode.Uri, it: AnalysisItem): Suggestion {
+  return {
+    id: sha1(`${uri.toString()}:${it.line}:${it.message}:llm`),
+    uri,
+    line: it.line,
+    message: it.message,
+    anchor: it.anchor,
+    category: it.category,
+    confidence: it.confidence,
+    removal: it.removal,
+    source: 'llm',
+    createdAt: Date.now()
+  };
 }
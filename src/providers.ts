@@ -0,0 +1,236 @@
+import { WhyConfig } from './config';
+
+// Only the provider-related settings, so the CLI can build them without VS Code
+export type ProviderConfig = Pick<WhyConfig, 'apiKey' | 'apiProvider' | 'openaiModel' | 'claudeModel' | 'openaiCompatibleBaseUrl' | 'openaiCompatibleModel' | 'chunkTokens'>;
+
+export type ChatMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface Completion {
+  text: string;
+  usage?: TokenUsage; // as reported by the API, when available
+  truncated?: boolean; // the reply hit the output token limit
+}
+
+export interface ProviderRequest {
+  apiKey: string;
+  model: string;
+  baseUrl?: string;
+  chunkTokens?: number; // diff tokens per request; larger diffs are split
+  maxOutputTokens?: number; // reply cap, sized to fit the findings for one chunk
+}
+
+export interface LLMProvider {
+  readonly id: string;
+  readonly label: string;
+  // Local servers usually accept anonymous requests; hosted APIs do not
+  readonly requiresApiKey: boolean;
+  // Provider-specific environment variable consulted after WHYCOMMENT_API_KEY
+  readonly apiKeyEnv?: string;
+  // Rough size, in tokens, of the diff a model is sent per request
+  chunkTokens?(model: string): number;
+  // Largest reply the model can produce, in tokens
+  maxOutputTokens?(model: string): number;
+  // Pick this provider's model/base URL out of the user settings
+  settingsFrom(cfg: ProviderConfig): { model: string; baseUrl?: string };
+  // signal aborts the HTTP request (superseded or cancelled analysis)
+  complete(messages: ChatMessage[], req: ProviderRequest, signal?: AbortSignal): Promise<Completion>;
+}
+
+export interface ResolvedProvider {
+  provider: LLMProvider;
+  request: ProviderRequest;
+  ready: boolean; // false when a required API key is missing
+}
+
+const registry = new Map<string, LLMProvider>();
+
+export function registerProvider(p: LLMProvider): void {
+  registry.set(p.id, p);
+}
+
+export function getProvider(id: string): LLMProvider | undefined {
+  return registry.get(id);
+}
+
+export function listProviders(): LLMProvider[] {
+  return Array.from(registry.values());
+}
+
+export function resolveProvider(cfg: ProviderConfig): ResolvedProvider | undefined {
+  const provider = registry.get(cfg.apiProvider);
+  if (!provider) return undefined;
+  const apiKey = cfg.apiKey?.trim() ?? '';
+  const settings = provider.settingsFrom(cfg);
+  const request: ProviderRequest = { apiKey, ...settings, ...requestLimits(provider, settings.model, cfg.chunkTokens) };
+  return { provider, request, ready: !provider.requiresApiKey || apiKey.length > 0 };
+}
+
+const DEFAULT_CHUNK_TOKENS = 4000;
+const DEFAULT_MAX_OUTPUT_TOKENS = 4096;
+// Findings quote and question the lines they flag, so a dense chunk needs about one reply token per two diff tokens
+const REPLY_TOKENS_PER_DIFF_TOKEN = 0.5;
+const MIN_REPLY_TOKENS = 1024;
+
+/**
+ * Diff size per request and reply cap for a model, kept in proportion so a
+ * chunk's findings fit in the reply. `chunkTokens` (0 = the model's default)
+ * overrides the diff size; it is lowered when the model cannot write a reply
+ * that large.
+ */
+export function requestLimits(provider: LLMProvider, model: string, chunkTokens = 0): { chunkTokens: number; maxOutputTokens: number } {
+  const modelMax = provider.maxOutputTokens?.(model) ?? DEFAULT_MAX_OUTPUT_TOKENS;
+  const wanted = chunkTokens > 0 ? chunkTokens : provider.chunkTokens?.(model) ?? DEFAULT_CHUNK_TOKENS;
+  const chunk = Math.min(wanted, Math.floor(modelMax / REPLY_TOKENS_PER_DIFF_TOKEN));
+  return {
+    chunkTokens: chunk,
+    maxOutputTokens: Math.min(modelMax, Math.max(MIN_REPLY_TOKENS, Math.ceil(chunk * REPLY_TOKENS_PER_DIFF_TOKEN)))
+  };
+}
+
+// Same provider with `complete` intercepted (metering, request limits)
+export function withCompletion(llm: ResolvedProvider, complete: LLMProvider['complete']): ResolvedProvider {
+  return { ...llm, provider: { ...llm.provider, complete } };
+}
+
+// API key from the environment (CLI, tests, or when no key is stored in the editor)
+export function apiKeyFromEnv(providerId: string, env: Record<string, string | undefined> = process.env): string {
+  const specific = registry.get(providerId)?.apiKeyEnv;
+  return env.WHYCOMMENT_API_KEY || (specific ? env[specific] : undefined) || '';
+}
+
+// User-facing reason why analysis cannot run with the current settings
+export function providerUnavailableReason(cfg: ProviderConfig, resolved: ResolvedProvider | undefined): string | undefined {
+  if (!resolved) return `Unknown LLM provider "${cfg.apiProvider}".`;
+  if (!resolved.ready) return 'LLM API key is not set.';
+  return undefined;
+}
+
+// Rate-limit and overload responses worth retrying (529 is Anthropic's "overloaded")
+const RETRYABLE_STATUS = new Set([429, 503, 529]);
+const MAX_RETRIES = 3;
+const MAX_BACKOFF_MS = 30000;
+const MAX_RETRY_AFTER_MS = 60000;
+
+// POST with retry and exponential backoff; a Retry-After header takes precedence over the computed delay
+async function fetchWithRetry(url: string, init: any, signal?: AbortSignal): Promise<any> {
+  const fetchFn = (globalThis as any).fetch as (input: any, init?: any) => Promise<any>;
+  if (!fetchFn) throw new Error('fetch is not available in this environment');
+  for (let attempt = 0; ; attempt++) {
+    const resp = await fetchFn(url, { ...init, signal });
+    if (resp.ok || !RETRYABLE_STATUS.has(resp.status) || attempt >= MAX_RETRIES) return resp;
+    const retryAfter = parseRetryAfter(resp.headers?.get?.('retry-after'));
+    const backoff = Math.min(MAX_BACKOFF_MS, 1000 * 2 ** attempt) + Math.floor(Math.random() * 250);
+    await sleep(retryAfter !== undefined ? Math.min(retryAfter, MAX_RETRY_AFTER_MS) : backoff, signal);
+  }
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) { reject(abortError()); return; }
+    const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+    const onAbort = () => { clearTimeout(timer); reject(abortError()); };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function abortError(): Error {
+  return Object.assign(new Error('The operation was aborted'), { name: 'AbortError' });
+}
+
+async function callOpenAIWithMessages(messages: ChatMessage[], req: ProviderRequest, opts: { jsonMode: boolean; signal?: AbortSignal }): Promise<Completion> {
+  const body = {
+    model: req.model || 'gpt-4o-mini',
+    messages,
+    temperature: 0.2,
+    max_tokens: req.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS
+  } as any;
+  // Not every OpenAI-compatible server understands json_object; the prompts ask for JSON regardless
+  if (opts.jsonMode) body.response_format = { type: 'json_object' };
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (req.apiKey) headers['Authorization'] = `Bearer ${req.apiKey}`;
+  const baseUrl = (req.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+  const resp = await fetchWithRetry(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body)
+  }, opts.signal);
+  if (!resp.ok) throw new Error(`OpenAI HTTP ${resp.status}`);
+  const data = await resp.json() as any;
+  const usage = data.usage ? { inputTokens: data.usage.prompt_tokens ?? 0, outputTokens: data.usage.completion_tokens ?? 0 } : undefined;
+  return { text: data.choices?.[0]?.message?.content ?? '[]', usage, truncated: data.choices?.[0]?.finish_reason === 'length' };
+}
+
+async function callClaudeWithMessages(messages: ChatMessage[], req: ProviderRequest, signal?: AbortSignal): Promise<Completion> {
+  const systemMsg = messages.find(m => m.role === 'system')?.content ?? 'You output only JSON, nothing else.';
+  const msgList = messages.filter(m => m.role !== 'system');
+  const body = {
+    model: req.model || 'claude-3-5-haiku-latest',
+    max_tokens: req.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+    temperature: 0.2,
+    system: systemMsg,
+    messages: msgList
+  } as any;
+  const resp = await fetchWithRetry('https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-api-key': req.apiKey, 'anthropic-version': '2023-06-01' },
+    body: JSON.stringify(body)
+  }, signal);
+  if (!resp.ok) throw new Error(`Claude HTTP ${resp.status}`);
+  const data = await resp.json() as any;
+  const usage = data?.usage ? { inputTokens: data.usage.input_tokens ?? 0, outputTokens: data.usage.output_tokens ?? 0 } : undefined;
+  return { text: data?.content?.[0]?.text ?? '[]', usage, truncated: data?.stop_reason === 'max_tokens' };
+}
+
+function isLegacyOpenAIModel(model: string): boolean {
+  return /^gpt-(3\.5|4)(-|$)/.test(model);
+}
+
+registerProvider({
+  id: 'claude',
+  label: 'Claude',
+  requiresApiKey: true,
+  apiKeyEnv: 'ANTHROPIC_API_KEY',
+  chunkTokens: () => 6000,
+  // Claude 3 models stop at 4096 output tokens; 3.5 and later allow at least 8192
+  maxOutputTokens: model => /^claude-3-(haiku|sonnet|opus)/.test(model) ? 4096 : 8192,
+  settingsFrom: cfg => ({ model: cfg.claudeModel }),
+  complete: (messages, req, signal) => callClaudeWithMessages(messages, req, signal)
+});
+
+registerProvider({
+  id: 'openai',
+  label: 'OpenAI',
+  requiresApiKey: true,
+  apiKeyEnv: 'OPENAI_API_KEY',
+  // gpt-3.5-turbo and gpt-4 have small context windows and 4096-token replies; gpt-4o and later do not
+  chunkTokens: model => isLegacyOpenAIModel(model) ? 3000 : 6000,
+  maxOutputTokens: model => isLegacyOpenAIModel(model) ? 4096 : 16384,
+  settingsFrom: cfg => ({ model: cfg.openaiModel }),
+  complete: (messages, req, signal) => callOpenAIWithMessages(messages, req, { jsonMode: true, signal })
+});
+
+// Ollama, LM Studio, vLLM and other servers exposing /v1/chat/completions
+registerProvider({
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible',
+  requiresApiKey: false,
+  // Local models often run with small context windows
+  chunkTokens: () => 2000,
+  settingsFrom: cfg => ({ model: cfg.openaiCompatibleModel, baseUrl: cfg.openaiCompatibleBaseUrl }),
+  complete: (messages, req, signal) => callOpenAIWithMessages(messages, req, { jsonMode: false, signal })
+});
+
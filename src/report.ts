@@ -0,0 +1,152 @@
+// Review reports of the current questions, for PR descriptions and design reviews.
+// Editor-independent: the extension resolves files, links and anchors before rendering.
+import { CATEGORY_LABELS, SuggestionCategory } from './analysis';
+
+export type ReportFormat = 'markdown' | 'html' | 'json';
+export type ReportStatus = 'open' | 'applied' | 'ignored';
+
+export const REPORT_EXTENSIONS: Record<ReportFormat, string> = { markdown: 'md', html: 'html', json: 'json' };
+
+export interface ReportEntry {
+  file: string; // workspace-relative, forward slashes
+  line: number; // 1-based
+  href: string; // opens the file at the line
+  anchor: string; // the flagged code, trimmed
+  removed?: boolean; // the question asks why `anchor` was deleted
+  message: string;
+  source: string;
+  status: ReportStatus;
+  category?: SuggestionCategory;
+  confidence?: number;
+  baseRef?: string;
+}
+
+export interface Report {
+  scope: string; // e.g. "Workspace" or "Branch vs origin/main"
+  generatedAt: string; // ISO date
+  entries: ReportEntry[];
+}
+
+const REPORT_VERSION = 1;
+
+export function renderReport(report: Report, format: ReportFormat): string {
+  const sorted = { ...report, entries: sortEntries(report.entries) };
+  switch (format) {
+    case 'markdown': return renderMarkdown(sorted);
+    case 'html': return renderHtml(sorted);
+    case 'json': return renderJson(sorted);
+  }
+}
+
+function sortEntries(entries: ReportEntry[]): ReportEntry[] {
+  return [...entries].sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+}
+
+function byFile(entries: ReportEntry[]): Map<string, ReportEntry[]> {
+  const out = new Map<string, ReportEntry[]>();
+  for (const e of entries) out.set(e.file, [...(out.get(e.file) ?? []), e]);
+  return out;
+}
+
+function summary(entries: ReportEntry[]): string {
+  const count = (status: ReportStatus) => entries.filter(e => e.status === status).length;
+  return `${entries.length} question(s): ${count('open')} open, ${count('applied')} applied, ${count('ignored')} ignored`;
+}
+
+// Source, category and confidence, e.g. "llm · Magic number · 90%"
+function details(e: ReportEntry): string {
+  return [
+    e.source,
+    e.category ? CATEGORY_LABELS[e.category] : '',
+    e.confidence !== undefined ? `${Math.round(e.confidence * 100)}%` : '',
+    e.baseRef ? `vs ${e.baseRef}` : ''
+  ].filter(Boolean).join(' · ');
+}
+
+function renderMarkdown(report: Report): string {
+  const out = ['# WhyComment Report', '', `${report.scope} · ${summary(report.entries)} · ${report.generatedAt}`];
+  for (const [file, entries] of byFile(report.entries)) {
+    out.push('', `## ${escapeMarkdown(file)}`, '');
+    for (const e of entries) {
+      // Checked boxes mark questions that no longer need an answer
+      const box = e.status === 'open' ? '[ ]' : '[x]';
+      const message = e.status === 'ignored' ? `~~${escapeMarkdown(e.message)}~~ (ignored)` : escapeMarkdown(e.message);
+      const status = e.status === 'applied' ? ' (applied)' : '';
+      out.push(`- ${box} [${escapeMarkdown(`${file}:${e.line}`)}](${e.href}) ${message}${status}`);
+      if (e.anchor) out.push(`  ${e.removed ? 'Removed: ' : ''}${inlineCode(e.anchor)}`);
+      out.push(`  <sub>${escapeHtml(details(e))}</sub>`);
+    }
+  }
+  if (!report.entries.length) out.push('', '_No questions._');
+  return out.join('\n') + '\n';
+}
+
+function renderHtml(report: Report): string {
+  const sections: string[] = [];
+  for (const [file, entries] of byFile(report.entries)) {
+    const rows = entries.map(e => [
+      `<tr class="${e.status}">`,
+      `<td class="loc"><a href="${escapeHtml(e.href)}">${e.line}</a></td>`,
+      `<td><div class="msg">${escapeHtml(e.message)}</div>${e.anchor ? `<code${e.removed ? ' class="removed"' : ''}>${escapeHtml(e.anchor)}</code>` : ''}</td>`,
+      `<td class="meta">${escapeHtml(details(e))}</td>`,
+      `<td class="status">${e.status}</td>`,
+      '</tr>'
+    ].join(''));
+    sections.push(`<h2>${escapeHtml(file)}</h2>\n<table>\n<tr><th>Line</th><th>Question</th><th>Details</th><th>Status</th></tr>\n${rows.join('\n')}\n</table>`);
+  }
+  if (!report.entries.length) sections.push('<p><em>No questions.</em></p>');
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<title>WhyComment Report</title>',
+    '<style>',
+    'body { font-family: -apple-system, "Segoe UI", sans-serif; margin: 2em; color: #222; }',
+    'table { border-collapse: collapse; width: 100%; margin-bottom: 1.5em; }',
+    'th, td { border: 1px solid #ddd; padding: 6px 8px; text-align: left; vertical-align: top; }',
+    'th { background: #f5f5f5; }',
+    'code { display: block; margin-top: 4px; padding: 2px 4px; background: #f5f5f5; white-space: pre-wrap; }',
+    'code.removed { text-decoration: line-through; color: #a33; }',
+    '.loc, .status { white-space: nowrap; }',
+    '.meta { color: #666; font-size: 0.9em; }',
+    'tr.applied .msg { color: #2a7a2a; }',
+    'tr.ignored .msg { color: #888; text-decoration: line-through; }',
+    '</style>',
+    '</head>',
+    '<body>',
+    '<h1>WhyComment Report</h1>',
+    `<p>${escapeHtml(`${report.scope} · ${summary(report.entries)} · ${report.generatedAt}`)}</p>`,
+    ...sections,
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
+
+function renderJson(report: Report): string {
+  const count = (status: ReportStatus) => report.entries.filter(e => e.status === status).length;
+  return JSON.stringify({
+    version: REPORT_VERSION,
+    scope: report.scope,
+    generatedAt: report.generatedAt,
+    summary: { total: report.entries.length, open: count('open'), applied: count('applied'), ignored: count('ignored') },
+    items: report.entries
+  }, null, 2) + '\n';
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<>~|#]/g, c => `\\${c}`);
+}
+
+// A code span that survives backticks in the code
+function inlineCode(code: string): string {
+  const longest = Math.max(0, ...(code.match(/`+/g) ?? []).map(r => r.length));
+  const fence = '`'.repeat(longest + 1);
+  const pad = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+  return `${fence}${pad}${code}${pad}${fence}`;
+}
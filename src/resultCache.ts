@@ -0,0 +1,139 @@
+import * as vscode from 'vscode';
+import { AnalysisItem, PROMPT_VERSION, annotateDiffWithNewLines } from './analysis';
+import { ResolvedProvider } from './providers';
+import { PromptRules } from './rules';
+import { sha1 } from './utils';
+
+const CACHE_FILE = 'analysis-cache.json';
+const FORMAT_VERSION = 1;
+const SAVE_DELAY_MS = 2000;
+
+interface CacheEntry {
+  items: AnalysisItem[];
+  createdAt: number;
+}
+
+interface CacheFile {
+  version: number;
+  // Oldest first; the order is the LRU order
+  entries: [string, CacheEntry][];
+}
+
+export interface ResultCacheOptions {
+  maxEntries: number;
+  ttlMs: number; // 0 keeps entries until evicted
+}
+
+/**
+ * Key for one LLM analysis. The annotated diff is exactly what the model sees,
+ * so file headers, context lines and CRLF differences do not cause misses.
+ * Team rules change the prompt, so they are part of the key too.
+ */
+export function analysisCacheKey(diff: string, llm: ResolvedProvider, language: string, rules?: PromptRules): string {
+  const annotated = annotateDiffWithNewLines(diff.replace(/\r\n/g, '\n'));
+  const { model, baseUrl } = llm.request;
+  return sha1([PROMPT_VERSION, llm.provider.id, model, baseUrl ?? '', language, JSON.stringify(rules ?? null), annotated].join('\n'));
+}
+
+/**
+ * Bounded LRU cache of raw model results, persisted in the extension's global
+ * storage so analyses survive reloads and are shared across workspaces.
+ */
+export class ResultCache implements vscode.Disposable {
+  private entries = new Map<string, CacheEntry>();
+  private loaded: Promise<void>;
+  private saveTimer: NodeJS.Timeout | undefined;
+
+  // `log` receives write failures; the cache itself stays free of UI
+  constructor(private storageDir: vscode.Uri, private getOptions: () => ResultCacheOptions, private log: (message: string) => void = () => undefined) {
+    this.loaded = this.load();
+  }
+
+  async get(key: string): Promise<AnalysisItem[] | undefined> {
+    await this.loaded;
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    const { ttlMs } = this.getOptions();
+    if (ttlMs > 0 && Date.now() - entry.createdAt > ttlMs) {
+      this.entries.delete(key);
+      this.scheduleSave();
+      return undefined;
+    }
+    // Move to the most-recently-used end
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.scheduleSave();
+    return entry.items;
+  }
+
+  async set(key: string, items: AnalysisItem[]): Promise<void> {
+    await this.loaded;
+    this.entries.delete(key);
+    this.entries.set(key, { items, createdAt: Date.now() });
+    this.evict();
+    this.scheduleSave();
+  }
+
+  async clear(): Promise<void> {
+    await this.loaded;
+    this.entries.clear();
+    await this.save();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  dispose(): void {
+    // Flush a pending write; best effort since the host may be shutting down
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+      void this.save();
+    }
+  }
+
+  private evict(): void {
+    const max = Math.max(1, this.getOptions().maxEntries);
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= max) break;
+      this.entries.delete(key);
+    }
+  }
+
+  private get fileUri(): vscode.Uri {
+    return vscode.Uri.joinPath(this.storageDir, CACHE_FILE);
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const raw = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(this.fileUri)).toString('utf8')) as CacheFile;
+      // Entries written by another format version are dropped rather than migrated
+      if (raw?.version !== FORMAT_VERSION || !Array.isArray(raw.entries)) return;
+      for (const [key, entry] of raw.entries) {
+        if (typeof key === 'string' && Array.isArray(entry?.items)) this.entries.set(key, entry);
+      }
+      this.evict();
+    } catch {
+      // Missing or unreadable cache: start empty
+    }
+  }
+
+  private scheduleSave(): void {
+    clearTimeout(this.saveTimer as NodeJS.Timeout);
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      void this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  private async save(): Promise<void> {
+    const data: CacheFile = { version: FORMAT_VERSION, entries: Array.from(this.entries) };
+    try {
+      await vscode.workspace.fs.createDirectory(this.storageDir);
+      await vscode.workspace.fs.writeFile(this.fileUri, Buffer.from(JSON.stringify(data), 'utf8'));
+    } catch (err) {
+      this.log(`Failed to save the result cache: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+}
@@ -0,0 +1,92 @@
+// Team rules from a checked-in `.whycomment.json`, merged into the prompts per file.
+// Editor-independent so the CLI applies the same rules as the extension.
+import { anyGlobMatch } from './glob';
+import { Schema, validate } from './schema';
+
+export const RULES_FILE = '.whycomment.json';
+
+export interface FewShotExample {
+  code: string; // the added line (or a few lines) as it appears in the diff
+  question: string; // the why-question the team wants for it
+}
+
+// Effective rules for one file
+export interface PromptRules {
+  cues: string[]; // extra things reviewers want flagged, e.g. "currency rounding"
+  suppress: string[]; // categories never to ask about, e.g. "logging"
+  maxMessageLength?: number;
+  examples: FewShotExample[];
+}
+
+// Top-level fields apply to every file; each entry in `rules` adds to them for matching paths
+export interface RulesFile extends Partial<PromptRules> {
+  rules?: (Partial<PromptRules> & { files: string[] })[];
+}
+
+const STRING_LIST: Schema = { type: 'array', items: { type: 'string', minLength: 1 } };
+
+const RULE_PROPERTIES: Record<string, Schema> = {
+  cues: STRING_LIST,
+  suppress: STRING_LIST,
+  maxMessageLength: { type: 'integer', minimum: 20 },
+  examples: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: { code: { type: 'string', minLength: 1 }, question: { type: 'string', minLength: 1 } },
+      required: ['code', 'question'],
+      additionalProperties: false
+    }
+  }
+};
+
+const RULES_FILE_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    ...RULE_PROPERTIES,
+    rules: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { ...RULE_PROPERTIES, files: { ...STRING_LIST, minItems: 1 } },
+        required: ['files'],
+        additionalProperties: false
+      }
+    }
+  },
+  additionalProperties: false
+};
+
+// Parse and validate the file; unknown keys are errors so typos do not go unnoticed
+export function parseRulesFile(text: string): { rules?: RulesFile; errors: string[] } {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (err) {
+    return { errors: [`not valid JSON: ${err instanceof Error ? err.message : String(err)}`] };
+  }
+  const errors = validate(RULES_FILE_SCHEMA, value);
+  return errors.length ? { errors } : { rules: value as RulesFile, errors };
+}
+
+// Merge the top-level rules with every matching `rules` entry, in file order
+export function rulesForPath(file: RulesFile, relPath: string): PromptRules {
+  const out: PromptRules = { cues: [], suppress: [], examples: [] };
+  const add = (r: Partial<PromptRules>) => {
+    out.cues.push(...(r.cues ?? []));
+    out.suppress.push(...(r.suppress ?? []));
+    out.examples.push(...(r.examples ?? []));
+    if (r.maxMessageLength !== undefined) out.maxMessageLength = r.maxMessageLength;
+  };
+  add(file);
+  for (const r of file.rules ?? []) {
+    if (anyGlobMatch(r.files, relPath)) add(r);
+  }
+  out.cues = Array.from(new Set(out.cues));
+  out.suppress = Array.from(new Set(out.suppress));
+  return out;
+}
+
+export function isEmptyRules(r: PromptRules | undefined): boolean {
+  return !r || (!r.cues.length && !r.suppress.length && !r.examples.length && r.maxMessageLength === undefined);
+}
@@ -0,0 +1,102 @@
+// Tiny JSON-schema subset used to validate model output without a runtime dependency.
+// Error messages are sent back to the model in the repair request, so keep them readable.
+
+export type Schema =
+  | { type: 'object'; properties: Record<string, Schema>; required?: string[]; additionalProperties?: boolean }
+  | { type: 'array'; items: Schema; minItems?: number; maxItems?: number }
+  | { type: 'string'; minLength?: number; maxLength?: number; enum?: string[] }
+  | { type: 'integer'; minimum?: number }
+  | { type: 'number'; minimum?: number; maximum?: number }
+  | { type: 'boolean' };
+
+export function validate(schema: Schema, value: unknown, path = '$'): string[] {
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path}: expected an object`];
+      const obj = value as Record<string, unknown>;
+      const errors: string[] = [];
+      for (const key of schema.required ?? []) {
+        if (!(key in obj)) errors.push(`${path}: missing required property "${key}"`);
+      }
+      for (const [key, v] of Object.entries(obj)) {
+        const sub = schema.properties[key];
+        if (sub) errors.push(...validate(sub, v, `${path}.${key}`));
+        else if (schema.additionalProperties === false) errors.push(`${path}: unexpected property "${key}"`);
+      }
+      return errors;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) return [`${path}: expected an array`];
+      const errors: string[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: expected at least ${schema.minItems} item(s), got ${value.length}`);
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: expected at most ${schema.maxItems} item(s), got ${value.length}`);
+      value.forEach((v, i) => errors.push(...validate(schema.items, v, `${path}[${i}]`)));
+      return errors;
+    }
+    case 'string': {
+      if (typeof value !== 'string') return [`${path}: expected a string`];
+      const len = value.trim().length;
+      if (schema.minLength !== undefined && len < schema.minLength) return [`${path}: must not be empty`];
+      if (schema.maxLength !== undefined && len > schema.maxLength) return [`${path}: longer than ${schema.maxLength} characters`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path}: must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`];
+      return [];
+    }
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isInteger(value)) return [`${path}: expected an integer`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path}: must be >= ${schema.minimum}`];
+      return [];
+    }
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [`${path}: expected a number`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path}: must be >= ${schema.minimum}`];
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${path}: must be <= ${schema.maximum}`];
+      return [];
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path}: expected true or false`];
+  }
+}
+
+/**
+ * Parse the first JSON value in a model reply. Accepts a bare value, a value
+ * wrapped in a ```json fence, or one surrounded by prose; nested braces and
+ * braces inside strings are handled by scanning for the balanced end.
+ */
+export function extractJSON(text: string): unknown {
+  const trimmed = text.trim();
+  try { return JSON.parse(trimmed); } catch {}
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) {
+    try { return JSON.parse(fenced[1]); } catch {}
+  }
+  for (let start = 0; start < trimmed.length; start++) {
+    const ch = trimmed[start];
+    if (ch !== '{' && ch !== '[') continue;
+    const end = balancedEnd(trimmed, start);
+    if (end < 0) continue;
+    try { return JSON.parse(trimmed.slice(start, end + 1)); } catch {}
+  }
+  return undefined;
+}
+
+// Index of the bracket closing the one at `start`, or -1
+function balancedEnd(text: string, start: number): number {
+  const stack: string[] = [];
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') stack.push('}');
+    else if (ch === '[') stack.push(']');
+    else if (ch === '}' || ch === ']') {
+      if (stack.pop() !== ch) return -1;
+      if (!stack.length) return i;
+    }
+  }
+  return -1;
+}
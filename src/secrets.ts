@@ -0,0 +1,60 @@
+import * as vscode from 'vscode';
+
+// One secret per provider so switching providers does not lose the other key
+const SECRET_PREFIX = 'whycomment.apiKey.';
+
+let storage: vscode.SecretStorage | undefined;
+
+export function initSecrets(secrets: vscode.SecretStorage): void {
+  storage = secrets;
+}
+
+export async function getApiKey(providerId: string): Promise<string | undefined> {
+  return storage?.get(SECRET_PREFIX + providerId);
+}
+
+export async function setApiKey(providerId: string, key: string): Promise<void> {
+  if (!storage) throw new Error('Secret storage is not available');
+  await storage.store(SECRET_PREFIX + providerId, key);
+}
+
+export async function deleteApiKey(providerId: string): Promise<void> {
+  await storage?.delete(SECRET_PREFIX + providerId);
+}
+
+export function onDidChangeApiKey(listener: () => void): vscode.Disposable {
+  if (!storage) return new vscode.Disposable(() => undefined);
+  return storage.onDidChange(e => {
+    if (e.key.startsWith(SECRET_PREFIX)) listener();
+  });
+}
+
+/**
+ * Move a plain-text `whycomment.apiKey` setting into secret storage for the
+ * configured provider and blank the setting everywhere it is defined.
+ * Returns true when a key was migrated.
+ */
+export async function migrateApiKeySetting(): Promise<boolean> {
+  // User/workspace values first, then per-folder values in multi-root workspaces
+  const scopes: (vscode.WorkspaceFolder | undefined)[] = [undefined, ...(vscode.workspace.workspaceFolders ?? [])];
+  let migrated = false;
+  for (const folder of scopes) {
+    const c = vscode.workspace.getConfiguration('whycomment', folder?.uri);
+    const info = c.inspect<string>('apiKey');
+    const defined: [string | undefined, vscode.ConfigurationTarget][] = folder
+      ? [[info?.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder]]
+      : [[info?.workspaceValue, vscode.ConfigurationTarget.Workspace], [info?.globalValue, vscode.ConfigurationTarget.Global]];
+    for (const [value, target] of defined) {
+      if (value === undefined) continue;
+      const key = value.trim();
+      const providerId = c.get('apiProvider', 'claude');
+      // A key already in secret storage wins over the legacy setting
+      if (key && !await getApiKey(providerId)) {
+        await setApiKey(providerId, key);
+        migrated = true;
+      }
+      await c.update('apiKey', undefined, target);
+    }
+  }
+  return migrated;
+}
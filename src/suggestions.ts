@@ -1,8 +1,24 @@
 import * as vscode from 'vscode';
 import { Suggestion } from './types';
 
-export class SuggestionStore {
+const STORAGE_KEY = 'whycomment.suggestions';
+// Re-anchoring on every edit changes lines per keystroke; write them once typing pauses
+const SAVE_DELAY_MS = 2000;
+// Applied/ignored items only keep their questions from coming back; the newest few hundred are enough
+const MAX_RESOLVED = 300;
+const RESOLVED_MAX_AGE_MS = 30 * 24 * 3600 * 1000;
+
+// JSON-safe shape of a Suggestion as written to workspace state
+type StoredSuggestion = Omit<Suggestion, 'uri' | 'range'> & { uri: string };
+
+export class SuggestionStore implements vscode.Disposable {
   private byFile = new Map<string, Suggestion[]>();
+  private saveTimer: NodeJS.Timeout | undefined;
+  private _onDidChange = new vscode.EventEmitter<void>();
+  // Fires after any mutation, including in-place line shifts committed via setForFile
+  readonly onDidChange = this._onDidChange.event;
+
+  constructor(private state?: vscode.Memento) {}
 
   getForFile(uri: vscode.Uri): Suggestion[] {
     return this.byFile.get(uri.toString()) ?? [];
@@ -10,14 +26,17 @@ export class SuggestionStore {
 
   setForFile(uri: vscode.Uri, items: Suggestion[]): void {
     this.byFile.set(uri.toString(), items);
+    this.changed();
   }
 
   clearForFile(uri: vscode.Uri): void {
     this.byFile.delete(uri.toString());
+    this.changed();
   }
 
   clearAll(): void {
     this.byFile.clear();
+    this.changed();
   }
 
   update(s: Suggestion): void {
@@ -26,6 +45,7 @@ export class SuggestionStore {
     const idx = items.findIndex(i => i.id === s.id);
     if (idx >= 0) items[idx] = s; else items.push(s);
     this.byFile.set(key, items);
+    this.changed();
   }
 
   all(): Suggestion[] {
@@ -33,4 +53,56 @@ export class SuggestionStore {
     for (const arr of this.byFile.values()) out.push(...arr);
     return out;
   }
+
+  /**
+   * Read suggestions saved by a previous session, grouped by file.
+   * Line numbers are as last seen and must be re-resolved before use.
+   */
+  loadPersisted(): Map<string, Suggestion[]> {
+    const out = new Map<string, Suggestion[]>();
+    const raw = this.state?.get<StoredSuggestion[]>(STORAGE_KEY) ?? [];
+    for (const r of raw) {
+      if (!r || typeof r.uri !== 'string' || typeof r.line !== 'number') continue;
+      const s: Suggestion = { ...r, uri: vscode.Uri.parse(r.uri) };
+      const arr = out.get(r.uri) ?? [];
+      arr.push(s);
+      out.set(r.uri, arr);
+    }
+    return out;
+  }
+
+  dispose(): void {
+    // Flush a pending write; best effort since the host may be shutting down
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+      void this.save();
+    }
+    this._onDidChange.dispose();
+  }
+
+  // Notify listeners and schedule a save to workspace state
+  private changed(): void {
+    this._onDidChange.fire();
+    if (!this.state) return;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      void this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  private save(): Thenable<void> | undefined {
+    const data: StoredSuggestion[] = pruneResolved(this.all(), Date.now()).map(({ uri, range, ...rest }) => ({ ...rest, uri: uri.toString() }));
+    return this.state?.update(STORAGE_KEY, data);
+  }
+}
+
+// Open items are all kept; applied/ignored ones only while recent and among the newest MAX_RESOLVED
+function pruneResolved(items: Suggestion[], now: number): Suggestion[] {
+  const keep = new Set(items
+    .filter(s => (s.applied || s.ignored) && now - s.createdAt <= RESOLVED_MAX_AGE_MS)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(0, MAX_RESOLVED));
+  return items.filter(s => !(s.applied || s.ignored) || keep.has(s));
 }
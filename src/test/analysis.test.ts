@@ -0,0 +1,120 @@
+import * as assert from 'assert';
+import { ResponseStats, SUGGESTION_CATEGORIES, analyzeDiff, chunkAnnotatedDiff, parseAnalysisResponse, parseVariantsResponse, passesFilter } from '../analysis';
+import { createFakeProvider } from '../fakeProvider';
+import { LLMProvider, ResolvedProvider, getProvider, requestLimits } from '../providers';
+import { extractJSON } from '../schema';
+
+suite('Analysis Test Suite', () => {
+	test('should accept a reply that matches the schema', () => {
+		const parsed = parseAnalysisResponse('{"items":[{"line":3,"message":"Why 3 retries?","anchor":"retries = 3"}]}');
+		assert.deepStrictEqual(parsed.errors, []);
+		assert.deepStrictEqual(parsed.values, [{ line: 3, message: 'Why 3 retries?', anchor: 'retries = 3' }]);
+	});
+
+	test('should validate categories and confidence and filter on them', () => {
+		const parsed = parseAnalysisResponse(JSON.stringify({ items: [
+			{ line: 1, message: 'Why 3?', category: 'magic-number', confidence: 0.9 },
+			{ line: 2, message: 'Why here?', category: 'logging', confidence: 0.5 },
+			{ line: 3, message: 'Why sleep?', category: 'concurrency', confidence: 1.5 },
+			{ line: 4, message: 'Why first?', category: 'ordering', confidence: 0.3 }
+		] }));
+		assert.deepStrictEqual(parsed.values.map(v => v.line), [1, 4]);
+		assert.ok(parsed.errors.some(e => e.startsWith('$.items[1].category: must be one of')));
+		assert.ok(parsed.errors.includes('$.items[2].confidence: must be <= 1'));
+		const filter = { minConfidence: 0.5, categories: SUGGESTION_CATEGORIES.filter(c => c !== 'ordering') };
+		assert.deepStrictEqual(parsed.values.filter(v => passesFilter(v, filter)).map(v => v.line), [1]);
+		// Items without a category or confidence count as 'other' and certain
+		assert.strictEqual(passesFilter({}, filter), true);
+		assert.strictEqual(passesFilter({}, { minConfidence: 0, categories: ['regex'] }), false);
+	});
+
+	test('should drop items without a valid line instead of defaulting to 0', () => {
+		const parsed = parseAnalysisResponse('{"items":[{"message":"Why?"},{"line":"7","message":"Why?"},{"line":2,"message":"Why here?"}]}');
+		assert.strictEqual(parsed.received, 3);
+		assert.deepStrictEqual(parsed.values.map(v => v.line), [2]);
+		assert.ok(parsed.errors.some(e => e.includes('$.items[0]') && e.includes('"line"')));
+		assert.ok(parsed.errors.some(e => e.includes('$.items[1].line')));
+	});
+
+	test('should extract JSON with nested objects from fenced or chatty replies', () => {
+		const reply = 'Sure!\n```json\n{"items":[{"line":1,"message":"Why {x}?","meta":{"a":1}}]}\n```';
+		assert.deepStrictEqual(parseAnalysisResponse(reply).values.map(v => v.message), ['Why {x}?']);
+		assert.deepStrictEqual(extractJSON('note: {"a":{"b":"}"}} trailing'), { a: { b: '}' } });
+	});
+
+	test('should report the wrong shape and non-JSON replies', () => {
+		assert.deepStrictEqual(parseAnalysisResponse('[]').errors, ['$: expected an object']);
+		assert.deepStrictEqual(parseAnalysisResponse('no idea').errors, ['reply is not valid JSON']);
+		const variants = parseVariantsResponse('{"variants":["a","b"]}');
+		assert.deepStrictEqual(variants.values, ['a', 'b']);
+		assert.deepStrictEqual(variants.errors, ['$.variants: expected at least 3 item(s), got 2']);
+	});
+
+	test('should chunk along hunk boundaries and split oversized hunks', () => {
+		const diff = [
+			'@@ -1,1 +1,3 @@', ' a', '+bb', '+cc',
+			'@@ -10,0 +12,2 @@', '+dd', '+ee',
+			'@@ -20,0 +24,6 @@', '+f1', '+f2', '+f3', '+f4', '+f5', '+f6'
+		].join('\n');
+		// Each annotated line is about 3 tokens, so 8 tokens hold two lines
+		const chunks = chunkAnnotatedDiff(diff, 8);
+		assert.deepStrictEqual(chunks, [
+			['[2] +bb', '[3] +cc'],
+			['[12] +dd', '[13] +ee'],
+			['[24] +f1', '[25] +f2'], ['[26] +f3', '[27] +f4'], ['[28] +f5', '[29] +f6']
+		]);
+	});
+
+	test('should size the reply cap with the chunk and within the model limit', () => {
+		const claude = getProvider('claude')!;
+		assert.deepStrictEqual(requestLimits(claude, 'claude-3-5-haiku-latest'), { chunkTokens: 6000, maxOutputTokens: 3000 });
+		assert.deepStrictEqual(requestLimits(claude, 'claude-3-5-haiku-latest', 12000), { chunkTokens: 12000, maxOutputTokens: 6000 });
+		// Claude 3 Haiku cannot write 6000 tokens, so the chunk shrinks to what it can answer
+		assert.deepStrictEqual(requestLimits(claude, 'claude-3-haiku-20240307', 12000), { chunkTokens: 8192, maxOutputTokens: 4096 });
+		assert.deepStrictEqual(requestLimits(getProvider('openai-compatible')!, 'llama3.1'), { chunkTokens: 2000, maxOutputTokens: 1024 });
+	});
+
+	test('should send annotated added lines and repair an invalid reply', async () => {
+		const fake = createFakeProvider([
+			'Sure! Here you go: {"items":[{"line":"two","message":"Why?"}]}',
+			'{"items":[{"line":1,"message":"Why retry 3 times?","anchor":"retries = 3"},{"line":0,"message":"Why?"}]}'
+		]);
+		const stats: ResponseStats[] = [];
+		const items = await analyzeDiff('@@ -1,1 +1,2 @@\n const a = 1;\n+retries = 3', { llm: resolved(fake), language: 'en', onStats: s => stats.push(s) });
+		assert.strictEqual(fake.requests.length, 2);
+		assert.ok(fake.requests[0][1].content.endsWith('[2] +retries = 3'));
+		assert.ok(fake.requests[1][3].content.startsWith('Your previous reply did not match'));
+		assert.deepStrictEqual(items, [{ line: 1, message: 'Why retry 3 times?', anchor: 'retries = 3' }]);
+		assert.deepStrictEqual([stats[0].repaired, stats[0].outsideDiff], [true, 1]);
+	});
+
+	test('should ask about deleted lines and anchor them to the nearest surviving line', async () => {
+		const fake = createFakeProvider([JSON.stringify({ items: [
+			{ line: 1, message: 'Why was the lock removed?', anchor: 'lock.acquire();', removed: true },
+			{ line: 0, message: 'Why?', removed: true },
+			{ line: 2, message: 'Why skip the retry?', anchor: 'send();' }
+		] })]);
+		const diff = ['@@ -1,3 +1,3 @@', ' start();', '-lock.acquire();', '+send();', ' done();'].join('\n');
+		const items = await analyzeDiff(diff, { llm: resolved(fake), language: 'en' });
+		assert.ok(fake.requests[0][1].content.endsWith('[-2] -lock.acquire();\n[2] +send();'));
+		assert.deepStrictEqual(items, [
+			{ line: 1, message: 'Why was the lock removed?', anchor: 'send();', removal: { oldLine: 1, text: 'lock.acquire();' } }
+		]);
+	});
+
+	test('should re-split a truncated chunk and merge the results', async () => {
+		const fake = createFakeProvider(messages => {
+			const prompt = messages[messages.length - 1].content;
+			const lines = Array.from(prompt.matchAll(/^\[(\d+)\]/gm), m => Number(m[1]) - 1);
+			if (lines.length > 1) return { text: '{"items":[{"line":', truncated: true };
+			return JSON.stringify({ items: [{ line: lines[0], message: 'Why?' }, { line: lines[0], message: 'Why?' }] });
+		});
+		const items = await analyzeDiff('@@ -0,0 +1,2 @@\n+a\n+b', { llm: resolved(fake), language: 'en' });
+		assert.strictEqual(fake.requests.length, 3);
+		assert.deepStrictEqual(items.map(i => i.line), [0, 1]);
+	});
+});
+
+function resolved(provider: LLMProvider): ResolvedProvider {
+	return { provider, request: { apiKey: '', model: 'fake' }, ready: true };
+}
@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { BudgetExceededError, BudgetLimits, RequestBudget } from '../budget';
+import { createFakeProvider } from '../fakeProvider';
+import { ChatMessage } from '../providers';
+
+// In-memory global state
+function memento(): vscode.Memento {
+	const values = new Map<string, unknown>();
+	return {
+		keys: () => [...values.keys()],
+		get: (key: string, fallback?: unknown) => values.has(key) ? values.get(key) : fallback,
+		update: async (key: string, value: unknown) => { values.set(key, value); }
+	} as vscode.Memento;
+}
+
+const ask: ChatMessage[] = [{ role: 'user', content: 'why?' }];
+
+suite('Budget Test Suite', () => {
+	test('should not let concurrent requests overshoot a request limit', async () => {
+		const limits: BudgetLimits = { dailyRequests: 1, monthlyRequests: 0, dailyTokens: 0, monthlyTokens: 0 };
+		const budget = new RequestBudget(memento(), () => limits);
+		let release!: () => void;
+		const gate = new Promise<void>(resolve => { release = resolve; });
+		const fake = createFakeProvider(async () => { await gate; return '{"items": []}'; });
+		const llm = budget.meter({ provider: fake, request: { apiKey: '', model: 'fake' }, ready: true });
+		const calls = Array.from({ length: 4 }, () => llm.provider.complete(ask, llm.request));
+		release();
+		const results = await Promise.allSettled(calls);
+		assert.strictEqual(results.filter(r => r.status === 'fulfilled').length, 1);
+		assert.ok(results.every(r => r.status === 'fulfilled' || r.reason instanceof BudgetExceededError));
+		assert.strictEqual(fake.requests.length, 1);
+		assert.strictEqual(budget.usage().dayRequests, 1);
+	});
+
+	test('should release the reservation of a failed request', async () => {
+		const limits: BudgetLimits = { dailyRequests: 1, monthlyRequests: 0, dailyTokens: 0, monthlyTokens: 0 };
+		const budget = new RequestBudget(memento(), () => limits);
+		const fake = createFakeProvider([]);
+		const llm = budget.meter({ provider: fake, request: { apiKey: '', model: 'fake' }, ready: true });
+		await assert.rejects(llm.provider.complete(ask, llm.request), /no reply/);
+		assert.strictEqual(budget.exhaustedReason(), undefined);
+		assert.strictEqual(budget.usage().dayRequests, 0);
+	});
+});
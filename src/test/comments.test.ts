@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import { formatComment, getCommentSyntax, getCommentSyntaxAt, isAlreadyExplained, scanComments } from '../comments';
+
+suite('Comment syntax Test Suite', () => {
+	test('should use the language line token', () => {
+		assert.strictEqual(formatComment(getCommentSyntax('sql')!, 'why'), '-- why');
+		assert.strictEqual(formatComment(getCommentSyntax('lisp')!, 'why'), '; why');
+		assert.strictEqual(formatComment(getCommentSyntax('python')!, '# why'), '# why');
+	});
+
+	test('should fall back to block delimiters', () => {
+		assert.strictEqual(formatComment(getCommentSyntax('css')!, 'why'), '/* why */');
+		assert.strictEqual(formatComment(getCommentSyntax('html')!, 'why'), '<!-- why -->');
+	});
+
+	test('should refuse formats without comments', () => {
+		assert.strictEqual(getCommentSyntax('json'), undefined);
+		assert.strictEqual(getCommentSyntax('some-unknown-language'), undefined);
+	});
+
+	test('should detect embedded script and style regions', () => {
+		const lines = [
+			'<template>',
+			'  <div>{{ total }}</div>',
+			'</template>',
+			'<script setup lang="ts">',
+			'const total = 42;',
+			'</script>',
+			'<style scoped>',
+			'.a { color: red; }',
+			'</style>'
+		];
+		assert.strictEqual(getCommentSyntaxAt('vue', lines, 1)?.block?.[0], '<!--');
+		assert.strictEqual(getCommentSyntaxAt('vue', lines, 4)?.line, '//');
+		assert.strictEqual(getCommentSyntaxAt('vue', lines, 7)?.line, undefined);
+		assert.strictEqual(getCommentSyntaxAt('vue', lines, 7)?.block?.[0], '/*');
+	});
+
+	const explained = (languageId: string, lines: string[], line: number) =>
+		isAlreadyExplained(scanComments(lines, () => getCommentSyntax(languageId)), lines, line);
+
+	test('should only count real comments attached to the line', () => {
+		assert.strictEqual(explained('typescript', ['const url = "http://example.com";'], 0), false);
+		assert.strictEqual(explained('typescript', ['retries = 3; // the gateway drops the first call'], 0), true);
+		assert.strictEqual(explained('typescript', ['/**', ' * Cached because the lookup is slow.', ' */', 'const cache = new Map();'], 3), true);
+		assert.strictEqual(explained('typescript', ['// Cached because the lookup is slow.', '', 'const cache = new Map();'], 2), false);
+		assert.strictEqual(explained('typescript', ['const a = `', '// not a comment', '`;', 'const b = 1;'], 3), false);
+		assert.strictEqual(explained('bat', ['removestale.cmd', 'del %TMP%\\x'], 1), false);
+		assert.strictEqual(explained('bat', ['rem Clean up before the next run', 'del %TMP%\\x'], 1), true);
+	});
+
+	test('should ignore pragmas and decorative comments', () => {
+		assert.strictEqual(explained('typescript', ['// eslint-disable-next-line no-console', 'console.log(x);'], 1), false);
+		assert.strictEqual(explained('typescript', ['x = 1; // @ts-ignore'], 0), false);
+		assert.strictEqual(explained('python', ['x = f()  # noqa: E501'], 0), false);
+		assert.strictEqual(explained('typescript', ['// ----------', 'x = 1;'], 1), false);
+		assert.strictEqual(explained('shellscript', ['#!/usr/bin/env bash', 'set -e'], 1), false);
+	});
+
+	test('should treat a docstring below a definition as its explanation', () => {
+		const lines = ['def retry(n):', '    """Back off because the API rate-limits bursts."""', '    return n * 2'];
+		assert.strictEqual(explained('python', lines, 0), true);
+		assert.strictEqual(explained('python', lines, 2), false);
+	});
+});
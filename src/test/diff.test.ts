@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+import { addedFileDiff, addedLines, parseUnifiedDiff, removedLines, splitDiffByFile } from '../diff';
+
+suite('Diff Test Suite', () => {
+	test('should read hunks by their counts, with or without them in the header', () => {
+		const diff = [
+			'diff --git a/x.ts b/x.ts',
+			'--- a/x.ts',
+			'+++ b/x.ts',
+			'@@ -1 +1 @@',
+			'-a',
+			'+b',
+			'@@ -5,2 +5,2 @@',
+			'--- removed line that looks like a header',
+			'+++ added line that looks like a header',
+			' context',
+			'\\ No newline at end of file'
+		].join('\n');
+		const [file] = parseUnifiedDiff(diff);
+		assert.strictEqual(file.newPath, 'x.ts');
+		assert.strictEqual(file.hunks.length, 2);
+		assert.deepStrictEqual(file.hunks[1].lines.map(l => [l.type, l.text, l.oldLine, l.newLine]), [
+			['del', '-- removed line that looks like a header', 5, undefined],
+			['add', '++ added line that looks like a header', undefined, 5],
+			['context', 'context', 6, 6]
+		]);
+		assert.deepStrictEqual([...addedLines(diff)], [0, 4]);
+	});
+
+	test('should strip CR from CRLF diffs', () => {
+		const diff = '--- a/x.ts\r\n+++ b/x.ts\r\n@@ -0,0 +1,2 @@\r\n+one\r\n+two\r\n';
+		const [file] = parseUnifiedDiff(diff);
+		assert.deepStrictEqual(file.hunks[0].lines.map(l => l.text), ['one', 'two']);
+	});
+
+	test('should track renames, binaries, deletions and quoted paths', () => {
+		const diff = [
+			'diff --git a/old name.ts b/new name.ts',
+			'similarity index 90%',
+			'rename from old name.ts',
+			'rename to new name.ts',
+			'--- a/old name.ts',
+			'+++ b/new name.ts',
+			'@@ -1,1 +1,1 @@',
+			'-x',
+			'+y',
+			'diff --git a/logo.png b/logo.png',
+			'new file mode 100644',
+			'Binary files /dev/null and b/logo.png differ',
+			'diff --git a/gone.ts b/gone.ts',
+			'deleted file mode 100644',
+			'--- a/gone.ts',
+			'+++ /dev/null',
+			'@@ -1 +0,0 @@',
+			'-bye',
+			'diff --git "a/caf\\303\\251.ts" "b/caf\\303\\251.ts"',
+			'--- "a/caf\\303\\251.ts"',
+			'+++ "b/caf\\303\\251.ts"',
+			'@@ -1,0 +2 @@',
+			'+z'
+		].join('\n');
+		const files = parseUnifiedDiff(diff);
+		assert.deepStrictEqual(files.map(f => [f.status, f.oldPath, f.newPath, f.binary]), [
+			['renamed', 'old name.ts', 'new name.ts', false],
+			['added', undefined, 'logo.png', true],
+			['deleted', 'gone.ts', undefined, false],
+			['modified', 'café.ts', 'café.ts', false]
+		]);
+		assert.deepStrictEqual(splitDiffByFile(diff).map(f => f.path), ['new name.ts', 'café.ts']);
+		assert.ok(splitDiffByFile(diff)[1].diff.startsWith('diff --git "a/caf'));
+	});
+
+	test('should build an added-file diff and split plain diff -u output', () => {
+		assert.deepStrictEqual([...addedLines(addedFileDiff('n.ts', 'a\r\nb\n'))], [0, 1]);
+		const plain = [
+			'--- a.ts\t2024-01-01 00:00:00',
+			'+++ a.ts\t2024-01-02 00:00:00',
+			'@@ -1 +1 @@',
+			'-1',
+			'+2',
+			'--- b.ts',
+			'+++ b.ts',
+			'@@ -1 +1,2 @@',
+			' 1',
+			'+2'
+		].join('\n');
+		assert.deepStrictEqual(splitDiffByFile(plain).map(f => f.path), ['a.ts', 'b.ts']);
+	});
+
+	test('should place deleted lines at the next surviving line, else the one above', () => {
+		const diff = [
+			'@@ -3,2 +2,0 @@', '-a', '-b',
+			'@@ -10,2 +8,1 @@', ' keep', '-tail'
+		].join('\n');
+		assert.deepStrictEqual([...removedLines(diff).values()].map(r => [r.oldLine, r.siteLine, r.siteText]), [
+			[2, 2, undefined], [3, 2, undefined], [10, 7, 'keep']
+		]);
+	});
+});
@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import { getCommentSyntax } from '../comments';
+import { parseUnifiedDiff } from '../diff';
+import { findSuppressions, maskSuppressedLines } from '../directives';
+
+suite('Suppression directives Test Suite', () => {
+	const ts = () => getCommentSyntax('typescript');
+
+	test('should suppress the next line and disabled regions', () => {
+		const lines = [
+			'// whycomment-ignore-next-line',
+			'const a = 1;',
+			'const b = 2;',
+			'/* whycomment-disable */',
+			'const c = 3;',
+			'// whycomment-enable',
+			'const d = "whycomment-disable";',
+			'const e = 5;'
+		];
+		const s = findSuppressions(lines, ts);
+		assert.strictEqual(s.file, false);
+		assert.deepStrictEqual([...s.lines].sort((a, b) => a - b), [1, 3, 4, 5]);
+	});
+
+	test('should honor the language comment token and file-level directive', () => {
+		assert.strictEqual(findSuppressions(['# whycomment-disable-file', 'x = 1'], () => getCommentSyntax('python')).file, true);
+		// '#' is not a comment in TypeScript
+		assert.strictEqual(findSuppressions(['# whycomment-disable-file'], ts).file, false);
+		// An unterminated region runs to the end of the file
+		assert.deepStrictEqual([...findSuppressions(['a', '// whycomment-disable', 'b'], ts).lines], [1, 2]);
+	});
+
+	test('should drop suppressed lines and rewrite hunk headers so the rest keep their numbers', () => {
+		const diff = [
+			'--- a/x.ts',
+			'+++ b/x.ts',
+			'@@ -1,5 +1,6 @@',
+			' a',
+			'+b',
+			'-old',
+			'+c',
+			' d',
+			'-gone',
+			' e',
+			'+f'
+		].join('\n');
+		// b and c sit in a disabled region, and "old" was deleted inside it
+		const masked = maskSuppressedLines(diff, new Set([1, 2]));
+		assert.ok(!masked.includes('+b') && !masked.includes('-old') && !masked.includes('+c'));
+		const [file] = parseUnifiedDiff(masked);
+		for (const h of file.hunks) {
+			assert.strictEqual(h.lines.filter(l => l.type !== 'add').length, h.oldLines);
+			assert.strictEqual(h.lines.filter(l => l.type !== 'del').length, h.newLines);
+		}
+		assert.deepStrictEqual(file.hunks.map(h => [h.oldStart, h.oldLines, h.newStart, h.newLines]), [[3, 3, 4, 3]]);
+		assert.deepStrictEqual(file.hunks.flatMap(h => h.lines).filter(l => l.type !== 'context').map(l => [l.type, l.text, l.oldLine, l.newLine]), [
+			['del', 'gone', 4, undefined],
+			['add', 'f', undefined, 6]
+		]);
+	});
+
+	test('should leave the diff alone when nothing in it is suppressed', () => {
+		const diff = ['@@ -1,1 +1,3 @@', ' a', '+b', '+c'].join('\n');
+		assert.strictEqual(maskSuppressedLines(diff, new Set([7])), diff);
+		const selection = ['@@ -4,0 +5,2 @@', '+x', '+y'].join('\n');
+		const [hunk] = parseUnifiedDiff(maskSuppressedLines(selection, new Set([4])))[0].hunks;
+		assert.deepStrictEqual([hunk.oldStart, hunk.oldLines, hunk.newStart, hunk.newLines, hunk.lines[0].newLine], [4, 0, 6, 1, 6]);
+	});
+});
@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FakeReply, createFakeProvider, createReplayProvider, recordReplies, requestKey, serializeRecording } from '../fakeProvider';
+import { ChatMessage } from '../providers';
+
+const ask = (content: string): ChatMessage[] => [{ role: 'system', content: 'sys' }, { role: 'user', content }];
+const req = { apiKey: '', model: 'fake' };
+
+suite('Fake provider Test Suite', () => {
+	test('should prefer keyed, then matching, then the next plain reply', async () => {
+		const fake = createFakeProvider([
+			'first',
+			{ match: 'retries', text: 'about retries' },
+			{ key: requestKey(ask('exact')), text: 'keyed' },
+			{ text: 'second', truncated: true }
+		]);
+		const texts: string[] = [];
+		for (const q of ['a', 'retries = 3', 'exact', 'b', 'retries again', 'exact']) {
+			texts.push((await fake.complete(ask(q), req)).text);
+		}
+		assert.deepStrictEqual(texts, ['first', 'about retries', 'keyed', 'second', 'about retries', 'keyed']);
+		await assert.rejects(fake.complete(ask('c'), req), /no reply for request 7/);
+		assert.strictEqual(fake.requests.length, 7);
+	});
+
+	test('should replay a recording made from another provider', async () => {
+		const live = createFakeProvider(messages => `reply to ${messages[1].content}`);
+		const sink: FakeReply[] = [];
+		const record = recordReplies(live.complete, sink);
+		await record(ask('x'), req);
+		await record(ask('y'), req);
+		const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'whycomment-replay-')), 'recording.json');
+		const previous = process.env.WHYCOMMENT_REPLAY_FILE;
+		try {
+			fs.writeFileSync(file, serializeRecording(sink));
+			process.env.WHYCOMMENT_REPLAY_FILE = file;
+			const replay = createReplayProvider();
+			const request = { apiKey: '', model: 'replay' };
+			assert.strictEqual((await replay.complete(ask('y'), request)).text, 'reply to y');
+			assert.strictEqual((await replay.complete(ask('x'), request)).text, 'reply to x');
+			await assert.rejects(replay.complete(ask('z'), request), /has no reply/);
+		} finally {
+			if (previous === undefined) delete process.env.WHYCOMMENT_REPLAY_FILE; else process.env.WHYCOMMENT_REPLAY_FILE = previous;
+			fs.rmSync(path.dirname(file), { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { addedLines, parseUnifiedDiff } from '../diff';
+import { getChangedFiles, getDiffForFile, getStagedContent } from '../git';
+
+const roots: string[] = [];
+
+// A throwaway repository; commits work without a configured identity
+function tempRepo(): { root: string; git: (...args: string[]) => void; write: (rel: string, content: string | Buffer) => string } {
+	const root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'whycomment-git-')));
+	const git = (...args: string[]) => {
+		execFileSync('git', ['-c', 'user.name=t', '-c', 'user.email=t@example.com', '-c', 'commit.gpgsign=false', ...args], { cwd: root, stdio: 'pipe' });
+	};
+	const write = (rel: string, content: string | Buffer) => {
+		const file = path.join(root, rel);
+		fs.writeFileSync(file, content);
+		return file;
+	};
+	roots.push(root);
+	git('init', '-q');
+	return { root, git, write };
+}
+
+suite('Git Test Suite', () => {
+	suiteTeardown(() => {
+		for (const root of roots) fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('should diff files in a repository without commits', async () => {
+		const repo = tempRepo();
+		const file = repo.write('a.ts', 'const a = 1;\r\nconst b = 2;\r\n');
+		assert.deepStrictEqual([...addedLines(await getDiffForFile(file, 1))], [0, 1]);
+		assert.strictEqual(await getStagedContent(file), undefined);
+		repo.git('add', 'a.ts');
+		assert.deepStrictEqual([...addedLines(await getDiffForFile(file, 1, { scope: 'staged' }))], [0, 1]);
+		assert.strictEqual(await getStagedContent(file), 'const a = 1;\r\nconst b = 2;\r\n');
+		assert.deepStrictEqual((await getChangedFiles(repo.root)).map(e => [e.status, e.path]), [['A', 'a.ts']]);
+	});
+
+	test('should diff a renamed file against its old name', async () => {
+		const repo = tempRepo();
+		const body = Array.from({ length: 20 }, (_, i) => `line ${i}`).join('\n') + '\n';
+		repo.write('old.ts', body);
+		repo.git('add', '.');
+		repo.git('commit', '-q', '-m', 'init');
+		repo.git('mv', 'old.ts', 'new.ts');
+		const file = repo.write('new.ts', body.replace('line 5', 'line five'));
+		const [patch] = parseUnifiedDiff(await getDiffForFile(file, 0));
+		assert.strictEqual(patch.status, 'renamed');
+		assert.deepStrictEqual(patch.hunks.flatMap(h => h.lines.map(l => l.type + ' ' + l.text)), ['del line 5', 'add line five']);
+	});
+
+	test('should skip binary files and ignore line-ending-only changes', async () => {
+		const repo = tempRepo();
+		repo.write('crlf.ts', 'a\nb\n');
+		repo.git('add', '.');
+		repo.git('commit', '-q', '-m', 'init');
+		const crlf = repo.write('crlf.ts', 'a\r\nb\r\n');
+		const binary = repo.write('logo.png', Buffer.from([0x89, 0x50, 0x00, 0x01]));
+		assert.strictEqual(await getDiffForFile(crlf, 1), '');
+		assert.strictEqual(await getDiffForFile(binary, 1), '');
+	});
+});
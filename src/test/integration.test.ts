@@ -0,0 +1,130 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { createFakeProvider } from '../fakeProvider';
+import { registerProvider } from '../providers';
+
+// End to end through the running extension: a scripted provider answers, a throwaway
+// repository inside a temporary workspace folder, added for this suite, holds the changes.
+const fake = createFakeProvider(messages => {
+	const prompt = messages[messages.length - 1].content;
+	const items = Array.from(prompt.matchAll(/^\[(\d+)\] \+(.*retries.*)$/gm), m => ({
+		line: Number(m[1]) - 1,
+		message: 'Why retry 3 times?',
+		anchor: m[2].trim(),
+		category: 'magic-number',
+		confidence: 0.9
+	}));
+	return JSON.stringify({ items });
+}, { id: 'integration-fake' });
+
+function tempRepo(folder: string, files: Record<string, string>): string {
+	const root = fs.mkdtempSync(path.join(folder, 'repo-'));
+	const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=t', '-c', 'user.email=t@example.com', '-c', 'commit.gpgsign=false', ...args], { cwd: root, stdio: 'pipe' });
+	git('init', '-q');
+	for (const [rel, content] of Object.entries(files)) fs.writeFileSync(path.join(root, rel), content);
+	git('add', '.');
+	git('commit', '-q', '-m', 'init');
+	return root;
+}
+
+function whyDiagnostics(uri: vscode.Uri): vscode.Diagnostic[] {
+	return vscode.languages.getDiagnostics(uri).filter(d => d.source === 'WhyComment');
+}
+
+async function waitFor<T>(probe: () => T | undefined, what: string, timeoutMs = 10000): Promise<T> {
+	const end = Date.now() + timeoutMs;
+	for (;;) {
+		const value = probe();
+		if (value) return value;
+		if (Date.now() > end) throw new Error(`Timed out waiting for ${what}`);
+		await new Promise(resolve => setTimeout(resolve, 50));
+	}
+}
+
+async function editAndSave(doc: vscode.TextDocument, line: number, text: string, replaceLine = false): Promise<void> {
+	const edit = new vscode.WorkspaceEdit();
+	if (replaceLine) edit.replace(doc.uri, doc.lineAt(line).range, text);
+	else edit.insert(doc.uri, new vscode.Position(line, 0), text);
+	assert.ok(await vscode.workspace.applyEdit(edit));
+	assert.ok(await doc.save());
+}
+
+// Add a folder to the open workspace; it must not be the first one, or the extension host restarts
+async function addWorkspaceFolder(folder: string): Promise<void> {
+	const changed = new Promise<void>(resolve => {
+		const listener = vscode.workspace.onDidChangeWorkspaceFolders(() => { listener.dispose(); resolve(); });
+	});
+	const index = vscode.workspace.workspaceFolders?.length ?? 0;
+	assert.ok(index > 0, 'the test run needs a workspace folder (see .vscode-test.mjs)');
+	assert.ok(vscode.workspace.updateWorkspaceFolders(index, 0, { uri: vscode.Uri.file(folder) }));
+	await changed;
+}
+
+suite('Integration Test Suite', () => {
+	let workspace: string;
+	let doc: vscode.TextDocument;
+
+	suiteSetup(async () => {
+		workspace = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'whycomment-test-')));
+		await addWorkspaceFolder(workspace);
+		registerProvider(fake);
+		await vscode.extensions.getExtension('basio.whycomment')?.activate();
+		const config = vscode.workspace.getConfiguration('whycomment');
+		await config.update('apiProvider', fake.id, vscode.ConfigurationTarget.Workspace);
+		await config.update('debounceMs', 0, vscode.ConfigurationTarget.Workspace);
+		await config.update('autoAnalyze', true, vscode.ConfigurationTarget.Workspace);
+		// Cached results from an earlier run would bypass the provider
+		await vscode.commands.executeCommand('whycomment.clearCache');
+		const root = tempRepo(workspace, { 'client.ts': 'export function fetchAll() {\n  return load();\n}\n' });
+		doc = await vscode.workspace.openTextDocument(path.join(root, 'client.ts'));
+		await vscode.window.showTextDocument(doc);
+	});
+
+	suiteTeardown(async () => {
+		await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+		const index = vscode.workspace.workspaceFolders?.findIndex(f => f.uri.fsPath === workspace) ?? -1;
+		if (index > 0) vscode.workspace.updateWorkspaceFolders(index, 1);
+		fs.rmSync(workspace, { recursive: true, force: true });
+	});
+
+	test('should analyze a saved change and keep questions on added lines', async () => {
+		await editAndSave(doc, 1, '  const retries = 3;\n');
+		const diags = await waitFor(() => whyDiagnostics(doc.uri).length ? whyDiagnostics(doc.uri) : undefined, 'a question after save');
+		assert.deepStrictEqual(diags.map(d => [d.range.start.line, d.message]), [[1, 'Why retry 3 times?']]);
+		assert.ok(fake.requests[0][1].content.includes('[2] +  const retries = 3;'));
+	});
+
+	test('should move questions with edits above and not duplicate them on re-save', async () => {
+		await editAndSave(doc, 0, 'import { load } from "./load";\n');
+		assert.deepStrictEqual(whyDiagnostics(doc.uri).map(d => d.range.start.line), [2]);
+		// Diagnostics are republished when the re-save analysis merges its reply, which comes after its request
+		const isResave = (r: { content: string }[]) => r[1].content.includes('+  const retries = 3; ');
+		let merged = false;
+		const listener = vscode.languages.onDidChangeDiagnostics(e => {
+			if (e.uris.some(u => u.toString() === doc.uri.toString()) && fake.requests.some(isResave)) merged = true;
+		});
+		try {
+			await editAndSave(doc, 2, '  const retries = 3; ', true);
+			await waitFor(() => merged || undefined, 'the re-save analysis');
+		} finally {
+			listener.dispose();
+		}
+		assert.deepStrictEqual(whyDiagnostics(doc.uri).map(d => [d.range.start.line, d.message]), [[2, 'Why retry 3 times?']]);
+	});
+
+	test('should insert the answer above the line and close the question', async () => {
+		const range = new vscode.Range(2, 0, 2, 0);
+		const actions = await vscode.commands.executeCommand<vscode.CodeAction[]>('vscode.executeCodeActionProvider', doc.uri, range);
+		const insert = actions.find(a => a.title === 'Insert why-comment…');
+		assert.ok(insert?.command);
+		// The answer is passed in rather than typed into the prompt
+		await vscode.commands.executeCommand(insert.command.command, ...(insert.command.arguments ?? []), { comment: 'The upstream API allows three attempts' });
+		assert.strictEqual(doc.lineAt(2).text, '  // The upstream API allows three attempts');
+		assert.strictEqual(doc.lineAt(3).text.trim(), 'const retries = 3;');
+		assert.deepStrictEqual(whyDiagnostics(doc.uri), []);
+	});
+});
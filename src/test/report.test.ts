@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { ReportEntry, renderReport } from '../report';
+
+suite('Report Test Suite', () => {
+	const entry = (over: Partial<ReportEntry>): ReportEntry => ({
+		file: 'src/a.ts', line: 1, href: 'vscode://file/w/src/a.ts:1', anchor: '', message: 'Why?', source: 'llm', status: 'open', ...over
+	});
+	const report = {
+		scope: 'Workspace',
+		generatedAt: '2024-01-01T00:00:00.000Z',
+		entries: [
+			entry({ file: 'src/b.ts', line: 9, href: 'vscode://file/w/src/b.ts:9', message: 'Why <b> here?', status: 'ignored' }),
+			entry({ line: 12, href: 'vscode://file/w/src/a.ts:12', anchor: 'const `x` = 3;', message: 'Why 3 *retries*?', category: 'magic-number', confidence: 0.9 }),
+			entry({ line: 4, status: 'applied' })
+		]
+	};
+
+	test('should group Markdown by file with status, links and escaped text', () => {
+		const md = renderReport(report, 'markdown');
+		assert.ok(md.includes('3 question(s): 1 open, 1 applied, 1 ignored'));
+		assert.ok(md.indexOf('## src/a.ts') < md.indexOf('## src/b.ts'));
+		assert.ok(md.indexOf('src/a.ts:4') < md.indexOf('src/a.ts:12'));
+		assert.ok(md.includes('- [ ] [src/a.ts:12](vscode://file/w/src/a.ts:12) Why 3 \\*retries\\*?'));
+		assert.ok(md.includes('``const `x` = 3;``'));
+		assert.ok(md.includes('llm · Magic number · 90%'));
+		assert.ok(md.includes('- [x] [src/b.ts:9](vscode://file/w/src/b.ts:9) ~~Why \\<b\\> here?~~ (ignored)'));
+	});
+
+	test('should escape HTML and keep JSON machine-readable', () => {
+		const html = renderReport(report, 'html');
+		assert.ok(html.includes('Why &lt;b&gt; here?'));
+		assert.ok(html.includes('<a href="vscode://file/w/src/a.ts:12">12</a>'));
+		assert.ok(!html.includes('<link') && !html.includes('<script'));
+		const json = JSON.parse(renderReport(report, 'json'));
+		assert.deepStrictEqual(json.summary, { total: 3, open: 1, applied: 1, ignored: 1 });
+		assert.deepStrictEqual(json.items.map((i: ReportEntry) => `${i.file}:${i.line}`), ['src/a.ts:4', 'src/a.ts:12', 'src/b.ts:9']);
+	});
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { buildSystemPrompt } from '../analysis';
+import { parseRulesFile, rulesForPath } from '../rules';
+
+suite('Rules file Test Suite', () => {
+	const text = JSON.stringify({
+		cues: ['feature flags'],
+		maxMessageLength: 100,
+		rules: [
+			{ files: ['src/billing/**'], cues: ['currency rounding'], suppress: ['logging'], examples: [{ code: 'Math.round(x * 100)', question: 'Why round to cents here?' }] },
+			{ files: ['src/billing/legacy/**'], maxMessageLength: 60 }
+		]
+	});
+
+	test('should merge top-level rules with matching path rules', () => {
+		const { rules, errors } = parseRulesFile(text);
+		assert.deepStrictEqual(errors, []);
+		const billing = rulesForPath(rules!, 'src/billing/legacy/tax.ts');
+		assert.deepStrictEqual(billing.cues, ['feature flags', 'currency rounding']);
+		assert.deepStrictEqual(billing.suppress, ['logging']);
+		assert.strictEqual(billing.maxMessageLength, 60);
+		const other = rulesForPath(rules!, 'src/ui/view.ts');
+		assert.deepStrictEqual(other.cues, ['feature flags']);
+		assert.strictEqual(other.maxMessageLength, 100);
+	});
+
+	test('should reject unknown keys and bad values', () => {
+		assert.ok(parseRulesFile('{"cue": ["x"]}').errors[0].includes('unexpected property "cue"'));
+		assert.ok(parseRulesFile('{"rules": [{"cues": ["x"]}]}').errors[0].includes('"files"'));
+		assert.ok(parseRulesFile('{').errors[0].startsWith('not valid JSON'));
+	});
+
+	test('should merge rules into the system prompt', () => {
+		const rules = rulesForPath(parseRulesFile(text).rules!, 'src/billing/pay.ts');
+		const prompt = buildSystemPrompt('en', rules);
+		assert.ok(prompt.includes('keep <= 100 chars'));
+		assert.ok(prompt.includes('currency rounding'));
+		assert.ok(prompt.includes('Never ask about: logging.'));
+		assert.ok(prompt.includes('"Why round to cents here?"'));
+	});
+});
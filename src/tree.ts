@@ -1,12 +1,28 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { Suggestion } from './types';
 import { relativeToWorkspace } from './utils';
+import { getRepoRoot } from './git';
+import { BaselineItem } from './baseline';
+import { CATEGORY_LABELS, SuggestionCategory } from './analysis';
+
+const CATEGORY_ICONS: Record<SuggestionCategory, string> = {
+  'magic-number': 'symbol-number',
+  ordering: 'list-ordered',
+  'special-case': 'milestone',
+  calculation: 'symbol-operator',
+  limit: 'dashboard',
+  concurrency: 'watch',
+  regex: 'regex',
+  condition: 'symbol-boolean',
+  other: 'comment'
+};
 
 export class SuggestionTreeProvider implements vscode.TreeDataProvider<SuggestionTreeItem> {
   private _onDidChangeTreeData = new vscode.EventEmitter<SuggestionTreeItem | undefined | void>();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
-  constructor(private getItems: () => Suggestion[]) {}
+  constructor(private getItems: () => Suggestion[], private getBaseline: () => BaselineItem[] = () => []) {}
 
   refresh(): void { this._onDidChangeTreeData.fire(); }
 
@@ -15,55 +31,74 @@ export class SuggestionTreeProvider implements vscode.TreeDataProvider<Suggestio
   }
 
   getChildren(element?: SuggestionTreeItem): Thenable<SuggestionTreeItem[]> {
-    const items = this.getItems();
+    const all = this.getItems();
+    // "Why removed?" questions live in their own group
+    const items = all.filter(s => !s.removal);
 
-    // Root: list files only
-    if (!element) {
-      const grouped = new Map<string, Suggestion[]>();
-      for (const s of items) {
-        const k = s.uri.toString();
-        const arr = grouped.get(k) ?? [];
-        arr.push(s);
-        grouped.set(k, arr);
-      }
-      const roots: SuggestionTreeItem[] = [];
-      for (const [k, arr] of grouped) {
-        const uri = vscode.Uri.parse(k);
-        const fileLabel = relativeToWorkspace(uri);
-        const fileItem = new SuggestionTreeItem(fileLabel, vscode.TreeItemCollapsibleState.Expanded);
-        fileItem.contextValue = 'file';
-        fileItem.resourceUri = uri;
-        fileItem.description = `${arr.length}`;
-        roots.push(fileItem);
-      }
-      return Promise.resolve(roots);
+    // Root: workspace folders when there are several, else repositories or files
+    if (!element) return this.rootNodes(items, all.filter(s => s.removal));
+
+    if (element.contextValue === 'removals') {
+      return Promise.resolve(this.fileNodes(all.filter(s => s.removal)));
+    }
+
+    if (element.contextValue === 'workspaceFolder') {
+      const folder = element.folder;
+      return this.repoOrFileNodes(items, s => vscode.workspace.getWorkspaceFolder(s.uri)?.uri.toString() === folder?.uri.toString());
+    }
+
+    if (element.contextValue === 'repository') {
+      const { inGroup = () => true, repoRoot } = element;
+      return this.repoRoots(items).then(roots => this.fileNodes(items.filter(s => inGroup(s) && roots.get(s.uri.toString()) === repoRoot), repoRoot));
+    }
+
+    if (element.contextValue === 'baseline') {
+      const multiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+      return Promise.resolve(this.getBaseline().map(b => {
+        const file = multiRoot ? `${b.folder.name}/${b.entry.file}` : b.entry.file;
+        const leaf = new SuggestionTreeItem(truncate(b.entry.message, 80), vscode.TreeItemCollapsibleState.None);
+        leaf.baselineItem = b;
+        leaf.description = file;
+        const removed = b.entry.removed !== undefined ? `\nRemoved: ${b.entry.removed}` : '';
+        leaf.tooltip = `${file}\n${b.entry.anchor}${removed}\n\n${b.entry.message}`;
+        leaf.contextValue = 'baselineEntry';
+        leaf.iconPath = new vscode.ThemeIcon('circle-slash');
+        leaf.command = { title: 'Open', command: 'vscode.open', arguments: [vscode.Uri.joinPath(b.folder.uri, b.entry.file)] };
+        return leaf;
+      }));
     }
 
-    // Children of a file node: the suggestions for that file
+    // Children of a file node: the suggestions for that file, from the group the node is in
     if (element.contextValue === 'file' && element.resourceUri) {
       const fileUri = element.resourceUri;
-      const arr = items.filter(s => s.uri.toString() === fileUri.toString());
+      const removals = !!element.removals;
+      const arr = all.filter(s => s.uri.toString() === fileUri.toString() && !!s.removal === removals);
       const leaves: SuggestionTreeItem[] = [];
       for (const s of arr) {
         const messagePreview = truncate(s.message, 80);
         const label = `L${s.line + 1}: ${messagePreview}`;
         const leaf = new SuggestionTreeItem(label, vscode.TreeItemCollapsibleState.None);
-        (leaf as any).suggestion = s;
+        leaf.suggestion = s;
         // Show a short hint on the right; keep icons from overlapping by avoiding inline commands in package.json
-        const right = s.source ? s.source : '';
+        const scopeLabel = s.scope === 'staged' || s.scope === 'unstaged' ? s.scope : '';
+        const category = s.category ? CATEGORY_LABELS[s.category] : '';
+        const confidence = s.confidence !== undefined ? `${Math.round(s.confidence * 100)}%` : '';
+        const right = [category, confidence, s.source, s.baseRef ? `vs ${s.baseRef}` : '', scopeLabel].filter(Boolean).join(' · ');
         leaf.description = right;
-        leaf.contextValue = 'suggestion';
-        (leaf as any).viewItem = 'suggestion';
-        (leaf as any).viewItemApplied = !!s.applied;
-        (leaf as any).viewItemIgnored = !!s.ignored;
+        leaf.contextValue = s.removal ? 'removal' : 'suggestion';
         leaf.command = {
           title: 'Open',
           command: 'vscode.open',
           arguments: [s.uri, { selection: new vscode.Range(s.line, 0, s.line, 0) }]
         } as vscode.Command;
         // Tooltip shows the message (why question)
-        leaf.tooltip = s.message;
-        leaf.iconPath = new vscode.ThemeIcon(s.applied ? 'pass' : s.ignored ? 'circle-slash' : 'comment');
+        leaf.tooltip = [
+          s.message,
+          s.removal ? `Removed: ${s.removal.text.trim()}` : '',
+          [category, confidence && `confidence ${confidence}`].filter(Boolean).join(', ')
+        ].filter(Boolean).join('\n');
+        const icon = s.removal ? 'diff-removed' : CATEGORY_ICONS[s.category ?? 'other'];
+        leaf.iconPath = new vscode.ThemeIcon(s.applied ? 'pass' : s.ignored ? 'circle-slash' : icon);
         leaves.push(leaf);
       }
       return Promise.resolve(leaves);
@@ -72,6 +107,107 @@ export class SuggestionTreeProvider implements vscode.TreeDataProvider<Suggestio
     // Leaf nodes have no children
     return Promise.resolve([]);
   }
+
+  private async rootNodes(items: Suggestion[], removals: Suggestion[]): Promise<SuggestionTreeItem[]> {
+    const roots: SuggestionTreeItem[] = [];
+    if ((vscode.workspace.workspaceFolders?.length ?? 0) > 1) {
+      const byFolder = new Map<string, { folder?: vscode.WorkspaceFolder; count: number }>();
+      for (const s of items) {
+        const folder = vscode.workspace.getWorkspaceFolder(s.uri);
+        const key = folder?.uri.toString() ?? '';
+        byFolder.set(key, { folder, count: (byFolder.get(key)?.count ?? 0) + 1 });
+      }
+      for (const { folder, count } of byFolder.values()) {
+        const node = new SuggestionTreeItem(folder?.name ?? 'Other Files', vscode.TreeItemCollapsibleState.Expanded);
+        node.contextValue = 'workspaceFolder';
+        node.folder = folder;
+        node.description = `${count}`;
+        node.iconPath = new vscode.ThemeIcon(folder ? 'root-folder' : 'files');
+        roots.push(node);
+      }
+    } else {
+      roots.push(...await this.repoOrFileNodes(items, () => true));
+    }
+    if (removals.length) {
+      const group = new SuggestionTreeItem('Why Removed?', vscode.TreeItemCollapsibleState.Expanded);
+      group.contextValue = 'removals';
+      group.description = `${removals.length}`;
+      group.tooltip = 'Questions about deleted code, shown at the nearest remaining line';
+      group.iconPath = new vscode.ThemeIcon('diff-removed');
+      roots.push(group);
+    }
+    // Team suppressions, collapsed since they are reference material
+    const baseline = this.getBaseline();
+    if (baseline.length) {
+      const group = new SuggestionTreeItem('Team Baseline', vscode.TreeItemCollapsibleState.Collapsed);
+      group.contextValue = 'baseline';
+      group.description = `${baseline.length}`;
+      group.iconPath = new vscode.ThemeIcon('shield');
+      roots.push(group);
+    }
+    return roots;
+  }
+
+  // Repository nodes when the items span several repositories (submodules, nested repos), else file nodes
+  private async repoOrFileNodes(all: Suggestion[], inGroup: (s: Suggestion) => boolean): Promise<SuggestionTreeItem[]> {
+    const items = all.filter(inGroup);
+    const roots = await this.repoRoots(items);
+    const counts = new Map<string, number>();
+    for (const s of items) {
+      const root = roots.get(s.uri.toString());
+      if (root) counts.set(root, (counts.get(root) ?? 0) + 1);
+    }
+    if (counts.size < 2) return this.fileNodes(items);
+    const nodes: SuggestionTreeItem[] = [];
+    for (const [root, count] of [...counts].sort(([a], [b]) => a.localeCompare(b))) {
+      const node = new SuggestionTreeItem(path.basename(root), vscode.TreeItemCollapsibleState.Expanded);
+      node.contextValue = 'repository';
+      node.inGroup = inGroup;
+      node.repoRoot = root;
+      const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(root));
+      const rel = folder ? path.relative(folder.uri.fsPath, root) : '';
+      node.description = rel && !rel.startsWith('..') ? `${rel.replace(/\\/g, '/')} · ${count}` : `${count}`;
+      node.tooltip = root;
+      node.iconPath = new vscode.ThemeIcon('repo');
+      nodes.push(node);
+    }
+    // Files outside any repository
+    nodes.push(...this.fileNodes(items.filter(s => !roots.get(s.uri.toString()))));
+    return nodes;
+  }
+
+  // One node per file; labels are relative to the repository when grouped by repository
+  private fileNodes(items: Suggestion[], repoRoot?: string): SuggestionTreeItem[] {
+    const grouped = new Map<string, Suggestion[]>();
+    for (const s of items) {
+      const k = s.uri.toString();
+      const arr = grouped.get(k) ?? [];
+      arr.push(s);
+      grouped.set(k, arr);
+    }
+    const nodes: SuggestionTreeItem[] = [];
+    for (const [k, arr] of grouped) {
+      const uri = vscode.Uri.parse(k);
+      const fileLabel = repoRoot ? path.relative(repoRoot, uri.fsPath) : relativeToWorkspace(uri);
+      const fileItem = new SuggestionTreeItem(fileLabel, vscode.TreeItemCollapsibleState.Expanded);
+      fileItem.contextValue = 'file';
+      fileItem.removals = !!arr[0].removal;
+      fileItem.resourceUri = uri;
+      fileItem.description = `${arr.length}`;
+      nodes.push(fileItem);
+    }
+    return nodes;
+  }
+
+  // File URI -> repository root; lookups are cached by git.ts
+  private async repoRoots(items: Suggestion[]): Promise<Map<string, string | undefined>> {
+    const out = new Map<string, string | undefined>();
+    for (const s of items) {
+      const k = s.uri.toString();
+      if (!out.has(k)) out.set(k, s.uri.scheme === 'file' ? await getRepoRoot(s.uri.fsPath) : undefined);
+    }
+    return out;
+  }
 }
 
 function truncate(text: string, max: number): string {
@@ -79,4 +215,11 @@ function truncate(text: string, max: number): string {
   return text.slice(0, Math.max(0, max - 1)) + '…';
 }
 
-export class SuggestionTreeItem extends vscode.TreeItem {}
+export class SuggestionTreeItem extends vscode.TreeItem {
+  suggestion?: Suggestion; // leaf of a suggestion or removal question
+  baselineItem?: BaselineItem; // leaf of a team baseline entry
+  folder?: vscode.WorkspaceFolder; // workspace folder group; undefined for files outside every folder
+  repoRoot?: string; // repository group
+  inGroup?: (s: Suggestion) => boolean; // repository group: the suggestions of its parent group
+  removals?: boolean; // file node under "Why Removed?"
+}
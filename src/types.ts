@@ -1,7 +1,11 @@
 import * as vscode from 'vscode';
+import { RemovedCode, SuggestionCategory } from './analysis';
 
 export type SuggestionSource = 'heuristic' | 'llm';
 
+// Which changes a diff covers: working tree vs HEAD, index vs HEAD, or working tree vs index
+export type DiffScope = 'all' | 'staged' | 'unstaged';
+
 export interface Suggestion {
   id: string;
   uri: vscode.Uri;
@@ -13,4 +17,9 @@ export interface Suggestion {
   applied?: boolean;
   ignored?: boolean;
   createdAt: number;
+  baseRef?: string; // set when produced by a branch analysis against this ref
+  scope?: DiffScope; // diff scope the suggestion was produced from
+  category?: SuggestionCategory;
+  confidence?: number; // 0..1 as reported by the model
+  removal?: RemovedCode; // a "why removed?" question; line is the nearest surviving line
 }
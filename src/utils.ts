@@ -11,43 +11,84 @@ export function isUnderWorkspace(uri: vscode.Uri): boolean {
   return !!folder;
 }
 
-// Minimal glob matcher supporting ** and * only.
-export function matchesGlob(pattern: string, filePath: string): boolean {
-  // Normalize to posix-like for matching
-  const normalized = filePath.replace(/\\/g, '/');
-  const normPat = pattern.replace(/\\/g, '/');
-
-  // Escape regex special chars except *
-  const esc = (s: string) => s.replace(/[-/\\^$+?.()|[\]{}]/g, '\\$&');
-  let rx = esc(normPat)
-    .replace(/\*\*/g, '§§DOUBLESTAR§§')
-    .replace(/\*/g, '[^/]*')
-    .replace(/§§DOUBLESTAR§§/g, '.*');
-  rx = `^${rx}$`;
-  return new RegExp(rx).test(normalized);
+// Glob helpers live in a vscode-free module so the CLI can share them
+export { anyGlobMatch, matchesGlob } from './glob';
+
+export function documentLines(doc: vscode.TextDocument): string[] {
+  const lines = new Array<string>(doc.lineCount);
+  for (let i = 0; i < doc.lineCount; i++) lines[i] = doc.lineAt(i).text;
+  return lines;
 }
 
-export function anyGlobMatch(patterns: string[], filePath: string): boolean {
-  return patterns.some(p => matchesGlob(p, filePath));
+// Run worker over items with at most `limit` in flight; stops taking new items once shouldStop() returns true
+export async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T, index: number) => Promise<void>, shouldStop?: () => boolean): Promise<void> {
+  let next = 0;
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length && !shouldStop?.()) {
+      const i = next++;
+      await worker(items[i], i);
+    }
+  });
+  await Promise.all(lanes);
 }
 
-export function getLineCommentToken(languageId: string): string {
-  // Best-effort mapping; default to '//'
-  switch (languageId) {
-    case 'python':
-    case 'ruby':
-    case 'shellscript':
-    case 'yaml':
-    case 'makefile':
-    case 'toml':
-      return '#';
-    case 'haskell':
-      return '--';
-    case 'lua':
-      return '--';
-    default:
-      return '//';
+// Caps how many tasks run at once; the limit is re-read on every acquire so setting changes apply immediately
+export class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private getLimit: () => number) {}
+
+  async run<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      return await fn();
+    } finally {
+      this.active--;
+      this.waiting.shift()?.();
+    }
   }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(new vscode.CancellationError());
+    if (this.active < Math.max(1, this.getLimit())) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        this.active++;
+        resolve();
+      };
+      const onAbort = () => {
+        this.waiting = this.waiting.filter(w => w !== grant);
+        reject(new vscode.CancellationError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiting.push(grant);
+    });
+  }
+}
+
+// True for user/superseded cancellations: VS Code's CancellationError or an aborted fetch
+export function isCancellation(err: unknown): boolean {
+  return err instanceof vscode.CancellationError || (err instanceof Error && err.name === 'AbortError');
+}
+
+// AbortController that also aborts when the given VS Code token is cancelled
+export function abortControllerFor(token?: vscode.CancellationToken): AbortController {
+  const controller = new AbortController();
+  token?.onCancellationRequested(() => controller.abort());
+  return controller;
+}
+
+let logChannel: vscode.LogOutputChannel | undefined;
+
+// Shared "WhyComment" output channel, created on first use
+export function getLog(): vscode.LogOutputChannel {
+  logChannel ??= vscode.window.createOutputChannel('WhyComment', { log: true });
+  return logChannel;
 }
 
 export function showInfo(message: string): void {
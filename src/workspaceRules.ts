@@ -0,0 +1,68 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PromptRules, RULES_FILE, RulesFile, isEmptyRules, parseRulesFile, rulesForPath } from './rules';
+import { getLog } from './utils';
+
+/**
+ * Loads `.whycomment.json` from the root of each workspace folder and keeps it
+ * current: the parsed file is cached per folder and dropped whenever the file
+ * is created, changed or deleted.
+ */
+export class WorkspaceRules implements vscode.Disposable {
+  private byFolder = new Map<string, Promise<RulesFile | undefined>>();
+  private watcher = vscode.workspace.createFileSystemWatcher(`**/${RULES_FILE}`);
+  private disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    const invalidate = (uri: vscode.Uri) => {
+      const folder = vscode.workspace.getWorkspaceFolder(uri);
+      // Only the folder-root file is used; nested copies are ignored
+      if (folder && path.dirname(uri.fsPath) === folder.uri.fsPath) this.byFolder.delete(folder.uri.toString());
+    };
+    this.disposables.push(
+      this.watcher,
+      this.watcher.onDidCreate(invalidate),
+      this.watcher.onDidChange(invalidate),
+      this.watcher.onDidDelete(invalidate),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.byFolder.clear())
+    );
+  }
+
+  // Effective rules for a file, or undefined when no rules apply
+  async forUri(uri: vscode.Uri): Promise<PromptRules | undefined> {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!folder) return undefined;
+    const key = folder.uri.toString();
+    let pending = this.byFolder.get(key);
+    if (!pending) {
+      pending = this.load(folder);
+      this.byFolder.set(key, pending);
+    }
+    const file = await pending;
+    if (!file) return undefined;
+    const rel = path.relative(folder.uri.fsPath, uri.fsPath).replace(/\\/g, '/');
+    const rules = rulesForPath(file, rel);
+    return isEmptyRules(rules) ? undefined : rules;
+  }
+
+  dispose(): void {
+    for (const d of this.disposables) d.dispose();
+  }
+
+  private async load(folder: vscode.WorkspaceFolder): Promise<RulesFile | undefined> {
+    const uri = vscode.Uri.joinPath(folder.uri, RULES_FILE);
+    let text: string;
+    try {
+      text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    } catch {
+      return undefined;
+    }
+    const { rules, errors } = parseRulesFile(text);
+    if (errors.length) {
+      const rel = vscode.workspace.asRelativePath(uri);
+      getLog().warn(`${rel}: ${errors.join('; ')}`);
+      void vscode.window.showWarningMessage(`WhyComment: ${rel} is invalid and was ignored: ${errors[0]}`);
+    }
+    return rules;
+  }
+}